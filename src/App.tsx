@@ -1,36 +1,44 @@
-import { useEffect, useMemo, useState } from "react";
-import { loadState, saveState } from "./lib/storage";
-
-/* ========================
-   Types
-======================== */
-type ID = string;
-
-type Bucket = {
-  id: ID;
-  name: string;
-  category?: string; // For grouping in analytics
-  allocations: Record<string, number>; // monthKey -> allocation
-  isIncome?: boolean;
-  deletedMonths?: Record<string, boolean>;
-};
-
-type Txn = {
-  id: ID;
-  date: string;            // YYYY-MM-DD
-  description: string;
-  amount: number;          // negative = expense; positive = income/credit
-  bucketId: ID | null;
-  deleted?: boolean;
-};
-
-type AppState = { 
-  buckets: Bucket[]; 
-  txns: Txn[];
-  version?: number; // For future migrations
-};
-
-const CURRENT_VERSION = 1;
+import { useEffect, useMemo, useRef, useState } from "react";
+import { changePassphrase, checkHousehold, cloudAvailable, connectedMember, createRecoveryKey, loadState, pullFromCloud, recoverWithKey, removeMemberKey, saveResolved, saveState, saveSynced, setMemberPassphrase, subscribeToCloud } from "./lib/storage";
+import { clearOutbox, loadOutbox, queueCloudSave, retryDelay } from "./lib/outbox";
+import { eraseLocalData, localLockStatus, lockLocal, setAutoLockMinutes, setLocalPin, unlockLocal } from "./lib/localdb";
+import type { LocalLockStatus } from "./lib/localdb";
+import type { HouseholdCheck, SaveConflict, SaveResult } from "./lib/storage";
+import { mergeStates, resolveConflicts } from "./lib/merge";
+import type { RecordConflict } from "./lib/merge";
+import type { Account, AccountKind, AppState, AuditEntry, BankProfile, Bucket, Cadence, ColumnRole, CSVDelimiter, DateFormat, DecimalSeparator, ID, Member, MemberRole, RolloverMode, Rule, RecurringItem, SavingsGoal, SignConvention, Snapshot, SnapshotData, Txn, TxnSplit } from "./lib/types";
+import { extractTitle } from "./lib/merchant";
+import { applyRules, isRuleValid, ruleStats } from "./lib/rules";
+import { detectProfile, guessMapping, mappingIsUsable, normalizeHeader, readCSV, rowsToParsed, type ImportIssue, type ParsedRow } from "./lib/csv";
+import { looksLikeOFX, parseOFX } from "./lib/ofx";
+import { looksLikeQIF, parseQIF } from "./lib/qif";
+import { carryIns } from "./lib/rollover";
+import { accountBalance, clearedBalance, defaultAccount, finishReconcile, reconcileDifference, runningBalances } from "./lib/accounts";
+import { describeCadence, matchRecurring, pendingForMonth } from "./lib/recurring";
+import { detectSubscriptions, subscriptionToRecurring } from "./lib/subscriptions";
+import type { DetectedSubscription } from "./lib/subscriptions";
+import { goalProgress, isGoalBucket, requiredContribution } from "./lib/goals";
+import type { GoalStatus } from "./lib/goals";
+import { detectTransfers, isBudgetTxn, isTransfer, linkTransfers, unlinkTransfer } from "./lib/transfers";
+import { amountInBucket, isSplit, isUnassigned, splitRemainder, splitsAreValid, touchesBucket } from "./lib/splits";
+import { assignFingerprints, classifyImport, type ImportRow } from "./lib/dedupe";
+import { buildSuggestionModel, suggestBucket, type Suggestion } from "./lib/suggest";
+import { canEdit, canManageMembers, memberName, ROLE_LABELS, roleOf, spenderOf, stampChanges } from "./lib/members";
+import { emptyHistory, reapply, record, revert, stepBack, stepForward } from "./lib/history";
+import type { Command, History } from "./lib/history";
+import { CURRENT_VERSION, repairReportOf } from "./lib/migrations";
+import type { Prepared, RepairReport } from "./lib/migrations";
+import { BACKUP_COLLECTIONS, isEncryptedBackup, planImport, readBackup } from "./lib/backup";
+import type { BackupCollection, ImportMode } from "./lib/backup";
+import { changeKind, describeChange, logChanges, MAX_SNAPSHOTS, restoreSnapshot, sortedLog, stateAt } from "./lib/audit";
+
+const AUTOSAVE_DELAY_MS = 1500;
+const TOAST_MS = 6000;
+// label for edits that don't name themselves on the undo stack
+const EDIT: Command = { label: "Edit" };
+
+// saved locally = on this device only (not connected, or waiting on a conflict choice)
+type SaveStatus = "local" | "syncing" | "synced" | "error";
 
 /* ========================
    Utils
@@ -39,19 +47,12 @@ function uid(): ID { return Math.random().toString(36).slice(2, 10); }
 function monthKey(dt: Date) { return `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, "0")}`; }
 function monthKeyFrom(dateISO: string) { return dateISO.slice(0, 7); }
 function fmtCurrency(n: number) { return n.toLocaleString(undefined, { style: "currency", currency: "USD" }); }
-function today(delta = 0) { const d = new Date(); d.setDate(d.getDate() + delta); return d.toISOString().slice(0, 10); }
 function fmtPretty(dateISO: string) {
   const [y, m, d] = dateISO.split("-").map(Number);
   const dt = new Date(y, (m || 1) - 1, d || 1);
   return dt.toLocaleDateString(undefined, { month: "short", day: "2-digit", year: "numeric" });
 }
 
-// pull a merchant-y title from the raw description
-function extractTitle(desc: string) {
-  const m = desc.match(/^([A-Za-z0-9'&\-\.\s]{3,}?)(?:\s+(?:TX|CA|NY|[A-Z]{2})\b|\s+\d{2,}|\s+-|$)/i);
-  return (m?.[1] || desc).trim();
-}
-
 function seedState(): AppState {
   const now = new Date();
   const activeMonthKey = monthKey(now);
@@ -60,70 +61,11 @@ function seedState(): AppState {
       { id: "income", name: "Income", allocations: { [activeMonthKey]: 0 }, isIncome: true },
     ],
     txns: [],
+    accounts: [defaultAccount()],
     version: CURRENT_VERSION,
   };
 }
 
-// Migration function to handle future updates
-function migrateState(state: AppState): AppState {
-  let migrated = { ...state };
-  
-  // Add version if missing
-  if (!migrated.version) {
-    migrated.version = 1;
-  }
-  
-  // Future migrations go here
-  // if (migrated.version < 2) {
-  //   // Perform migration from v1 to v2
-  //   migrated = { ...migrated, newField: defaultValue };
-  //   migrated.version = 2;
-  // }
-  
-  return migrated;
-}
-
-/* ========================
-   CSV Parsing
-======================== */
-function normalizeToISO(raw: string): string {
-  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
-  const dt = new Date(raw);
-  if (isNaN(dt.getTime())) return today();
-  return dt.toISOString().slice(0, 10);
-}
-function splitCSVLine(line: string): string[] {
-  const out: string[] = [];
-  let inQuote = false;
-  let cell = "";
-  for (let i = 0; i < line.length; i++) {
-    const c = line[i];
-    if (c === '"') { inQuote = !inQuote; continue; }
-    if (c === "," && !inQuote) { out.push(cell.trim()); cell = ""; continue; }
-    cell += c;
-  }
-  out.push(cell.trim());
-  return out;
-}
-function parseCSV_3col(text: string): Txn[] {
-  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
-  if (!lines.length) return [];
-  const hasHeader = /date|description|amount/i.test(lines[0]);
-  const start = hasHeader ? 1 : 0;
-  const txns: Txn[] = [];
-  for (let i = start; i < lines.length; i++) {
-    const cols = splitCSVLine(lines[i]);
-    if (cols.length < 3) continue;
-    const rawDate = cols[0];
-    const desc = cols[1];
-    let amtStr = cols[2];
-    if (/^\(.*\)$/.test(amtStr)) amtStr = "-" + amtStr.replace(/[()]/g, "");
-    const amount = Number(amtStr.replace(/[^0-9\.-]/g, "")) || 0;
-    txns.push({ id: uid(), date: normalizeToISO(rawDate), description: desc, amount, bucketId: null });
-  }
-  return txns;
-}
-
 /* ========================
    App
 ======================== */
@@ -136,42 +78,312 @@ export default function App() {
   const [connectOpen, setConnectOpen] = useState(false);
   const [analyticsOpen, setAnalyticsOpen] = useState(false);
   const [whiteboardOpen, setWhiteboardOpen] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [billsOpen, setBillsOpen] = useState(false);
+  const [recurringOpen, setRecurringOpen] = useState(false);
+  const [subscriptionsOpen, setSubscriptionsOpen] = useState(false);
+  const [importDraft, setImportDraft] = useState<ImportDraft | null>(null);
+  const [splitTxnId, setSplitTxnId] = useState<ID | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; draft?: ImportDraft; txns: Txn[]; errors: ImportIssue[]; accountRef?: string } | null>(null);
+  const [accountsOpen, setAccountsOpen] = useState(false);
+  const [lockOpen, setLockOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [backupFile, setBackupFile] = useState<{ name: string; text: string } | null>(null);
 
   // Core state + persistence
-  const [state, setState] = useState<AppState>(() => seedState());
+  const [state, setStateRaw] = useState<AppState>(() => seedState());
   const [loadedOnce, setLoadedOnce] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("synced");
+  const [saveError, setSaveError] = useState("");
+  // When the next retry of a failed cloud save is due (ms epoch); null = nothing queued
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  // Last state that came from a merge with the cloud; applying it isn't a local edit
+  const mergedStateRef = useRef<AppState | null>(null);
+  const latestStateRef = useRef<AppState>(state);
+  useEffect(() => { latestStateRef.current = state; }, [state]);
+
+  // Who is using the app (lib/members); null = household passphrase or not connected
+  const [memberId, setMemberId] = useState<ID | null>(null);
+  const myRole = roleOf(state.members, memberId);
+  const editable = canEdit(myRole);
+
+  // Undo/redo stacks (lib/history). Kept in a ref because it is written from
+  // inside state updaters; `toast` re-renders whenever it matters to the user.
+  const historyRef = useRef<History>(emptyHistory);
+  const [toast, setToast] = useState<{ message: string; undo?: boolean; redo?: boolean } | null>(null);
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  // A local edit from prev to next: the buckets/txns it touches are stamped
+  // with who made it, and what changed is appended to the change log
+  function commit(prev: AppState, next: AppState, label: string): AppState {
+    return logChanges(prev, stampChanges(prev, next, memberId), { id: uid(), at: new Date().toISOString(), by: memberId, label });
+  }
+
+  // Every edit goes through here: viewers can't change anything, and
+  // (unless the command says otherwise) the step lands on the undo stack
+  function setState(update: AppState | ((s: AppState) => AppState), command: Command = EDIT) {
+    if (!editable) return;
+    setStateRaw((s) => {
+      const next = commit(s, typeof update === "function" ? update(s) : update, command.label);
+      if (command.undoable !== false && next !== s) historyRef.current = record(historyRef.current, command, s, next);
+      return next;
+    });
+    if (command.destructive) setToast({ message: command.label, undo: true });
+  }
+
+  function undo() {
+    const step = editable ? stepBack(historyRef.current) : null;
+    if (!step) return;
+    historyRef.current = step.history;
+    setStateRaw((s) => commit(s, revert(step.entry, s), `Undo: ${step.entry.label}`));
+    setToast({ message: `Undid: ${step.entry.label}`, redo: true });
+  }
+  function redo() {
+    const step = editable ? stepForward(historyRef.current) : null;
+    if (!step) return;
+    historyRef.current = step.history;
+    setStateRaw((s) => commit(s, reapply(step.entry, s), `Redo: ${step.entry.label}`));
+    setToast({ message: `Redid: ${step.entry.label}`, undo: true });
+  }
+  const undoRef = useRef({ undo, redo });
+  useEffect(() => { undoRef.current = { undo, redo }; });
 
+  // Ctrl/⌘+Z and Ctrl/⌘+Shift+Z (or Ctrl+Y); text fields keep their own undo
   useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) { e.preventDefault(); undoRef.current.undo(); }
+      else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); undoRef.current.redo(); }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Local lock (PIN-encrypted local copy); nothing is read until it's unlocked
+  const [lockStatus, setLockStatus] = useState<LocalLockStatus | null>(null);
+  useEffect(() => {
+    localLockStatus().then(setLockStatus, (error) => {
+      console.error("Could not open the local database:", error);
+      setLockStatus({ supported: false, enabled: false, unlocked: true, autoLockMinutes: 0 });
+    });
+  }, []);
+  const unlocked = !!lockStatus?.unlocked;
+
+  // Problems found in stored data: repaired ones are listed in a banner; data
+  // that couldn't be read at all stops the app at a repair report
+  const [repairs, setRepairs] = useState<RepairReport[]>([]);
+  const [unreadable, setUnreadable] = useState<RepairReport | null>(null);
+
+  useEffect(() => {
+    if (!unlocked) return;
     (async () => {
-      let s = await loadState(householdId || null, passphrase || null);
-      if (s) {
-        // Migrate old data to current version
-        s = migrateState(s);
-        setState(s);
+      // everything loaded is validated and migrated first, see lib/migrations
+      let loaded;
+      try {
+        loaded = await loadState(householdId || null, passphrase || null);
+      } catch (error) {
+        const report = repairReportOf(error);
+        if (report) { setUnreadable(report); return; }
+        // wrong passphrase, cloud unreachable…: say so and save nothing over
+        // what's stored until a load succeeds (fixing the connection retries it)
+        console.error("Load failed:", error);
+        setLoadedOnce(false);
+        setSaveStatus("error");
+        setSaveError(`Couldn't load the budget: ${error instanceof Error ? error.message : String(error)}`);
+        if (householdId) setConnectOpen(true);
+        return;
+      }
+      setUnreadable(null);
+      setSaveStatus("synced");
+      setSaveError("");
+      setRepairs(loaded?.repairs ?? []);
+      if (loaded?.offline && householdId) {
+        // showing this device's copy; the queued save (below) catches up with the cloud
+        queueCloudSave(householdId, "Couldn't reach the cloud copy");
+        setSaveStatus("error");
+        setSaveError("Offline — will sync when the connection returns");
       }
+      if (loaded) {
+        mergedStateRef.current = loaded.state;
+        setStateRaw(loaded.state);
+      }
+      // steps recorded against another household's (or a locked) budget don't apply
+      historyRef.current = emptyHistory;
+      setMemberId(householdId && passphrase ? connectedMember(householdId, passphrase) : null);
       setLoadedOnce(true);
+      // a save owed from an earlier session goes out right away
+      if (householdId && loadOutbox(householdId)) setRetryAt(Date.now());
     })();
-  }, [householdId, passphrase]);
+  }, [householdId, passphrase, unlocked]);
+
+  // Live updates from the other devices in the household, merged into what's on screen
+  useEffect(() => {
+    if (!householdId || !passphrase || !unlocked) return;
+    return subscribeToCloud(householdId, async () => {
+      const pulled = await pullFromCloud(householdId, passphrase).catch(() => null);
+      if (!pulled) return;
+      // the merged copy is stored locally in the same step that moves the base
+      const seen = latestStateRef.current;
+      const merged = mergeStates(pulled.base, seen, pulled.remote);
+      await saveSynced(householdId, merged, pulled.remote, pulled.revision);
+      setStateRaw((cur) => {
+        const next = cur === seen ? merged : mergeStates(pulled.base, cur, pulled.remote);
+        // Clean only if nothing local was pending; otherwise autosave still
+        // owes the cloud those edits, now on top of the new base.
+        if (next !== cur && cur === mergedStateRef.current) mergedStateRef.current = next;
+        return next;
+      });
+    });
+  }, [householdId, passphrase, unlocked]);
+
+  // A save that hit clashing edits from another device, waiting for the user to pick
+  const [saveConflict, setSaveConflict] = useState<{ conflict: SaveConflict; sent: AppState } | null>(null);
+  const connected = !!householdId && !!passphrase && cloudAvailable();
+  const shownStatus: SaveStatus = saveStatus === "synced" && !connected ? "local" : saveStatus;
+
+  function applySaveResult(sent: AppState, result: SaveResult) {
+    if (!result.ok) {
+      setSaveConflict({ conflict: result.conflict, sent });
+      setSaveStatus("local");
+      return;
+    }
+    const saved = result.state;
+    // keep anything edited while the save was in flight (and still owed a save)
+    setStateRaw((cur) => {
+      if (cur === sent) {
+        mergedStateRef.current = saved;
+        return saved;
+      }
+      return mergeStates(sent, cur, saved);
+    });
+    const dirty = latestStateRef.current !== sent;
+    setHasUnsavedChanges(dirty);
+    if (connected) { clearOutbox(); setRetryAt(null); }
+    setSaveError("");
+    setSaveStatus(!connected ? "local" : dirty ? "syncing" : "synced");
+  }
+
+  function saveFailed(error: unknown) {
+    console.error("Save failed:", error);
+    const message = error instanceof Error ? error.message : String(error);
+    if (!householdId) { setSaveStatus("error"); setSaveError(message); return; }
+    // already stored locally; queue the cloud write and retry with backoff
+    const entry = queueCloudSave(householdId, message);
+    setRetryAt(Date.now() + retryDelay(entry.attempts));
+    setSaveStatus("error");
+    setSaveError(navigator.onLine === false ? "Offline — will sync when the connection returns" : message);
+  }
 
-  // Manual save function
-  const manualSave = async () => {
-    setIsSaving(true);
+  // One save at a time; a request during a save runs once it finishes.
+  // The save under way is kept so locking can wait for it.
+  const saveInFlight = useRef<Promise<void> | null>(null);
+  const saveAgain = useRef(false);
+  function persist(): Promise<void> {
+    if (saveInFlight.current) { saveAgain.current = true; return saveInFlight.current; }
+    if (saveConflict || !loadedOnce || !editable) return Promise.resolve(); // waiting on the user / nothing loaded (or locked) / view only
+    const sent = latestStateRef.current;
+    setSaveStatus(connected ? "syncing" : "local");
+    const saving = (async () => {
+      try {
+        applySaveResult(sent, await saveState(sent, householdId || null, passphrase || null));
+      } catch (error) {
+        saveFailed(error);
+      }
+    })().finally(() => {
+      saveInFlight.current = null;
+      if (saveAgain.current) { saveAgain.current = false; persistRef.current(); }
+    });
+    saveInFlight.current = saving;
+    return saving;
+  }
+  const persistRef = useRef(persist);
+  useEffect(() => { persistRef.current = persist; });
+
+  async function resolveSaveConflict(pick: Record<string, "local" | "remote">) {
+    if (!saveConflict || !householdId || !passphrase) return;
+    const { conflict, sent } = saveConflict;
+    setSaveConflict(null);
+    setSaveStatus("syncing");
     try {
-      await saveState(state, householdId || null, passphrase || null);
-      setHasUnsavedChanges(false);
+      const resolved = resolveConflicts(conflict.merged, conflict.conflicts, pick);
+      applySaveResult(sent, await saveResolved(resolved, conflict, householdId, passphrase));
     } catch (error) {
-      console.error("Save failed:", error);
-      alert("Failed to save. Please try again.");
-    } finally {
-      setIsSaving(false);
+      saveFailed(error);
     }
-  };
+  }
+
+  // Debounced autosave after every local edit
+  useEffect(() => {
+    if (!loadedOnce || state === mergedStateRef.current) return;
+    const timer = setTimeout(() => persistRef.current(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state, loadedOnce]);
+
+  // Retry queued cloud saves on schedule, or as soon as the browser is back online
+  useEffect(() => {
+    if (retryAt === null) return;
+    const timer = setTimeout(() => persistRef.current(), Math.max(0, retryAt - Date.now()));
+    const onOnline = () => persistRef.current();
+    window.addEventListener("online", onOnline);
+    return () => { clearTimeout(timer); window.removeEventListener("online", onOnline); };
+  }, [retryAt]);
+
+  // Save what's pending, then drop the key and everything decrypted from memory
+  async function lockNow() {
+    if (hasUnsavedChanges) await persist();
+    // a save already under way (or queued behind it) still needs the key
+    while (saveInFlight.current) await saveInFlight.current;
+    lockLocal();
+    const blank = seedState();
+    mergedStateRef.current = blank;
+    setStateRaw(blank);
+    historyRef.current = emptyHistory;
+    setToast(null);
+    setLoadedOnce(false);
+    setHasUnsavedChanges(false);
+    setLockOpen(false);
+    setLockStatus(await localLockStatus());
+  }
+  const lockNowRef = useRef(lockNow);
+  useEffect(() => { lockNowRef.current = lockNow; });
+
+  // Auto-lock after a stretch with no keyboard/mouse/touch activity
+  const autoLockMs = lockStatus?.enabled && unlocked ? lockStatus.autoLockMinutes * 60_000 : 0;
+  useEffect(() => {
+    if (!autoLockMs) return;
+    let timer = setTimeout(() => lockNowRef.current(), autoLockMs);
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => lockNowRef.current(), autoLockMs);
+    };
+    const events = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+    events.forEach((ev) => window.addEventListener(ev, onActivity, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      events.forEach((ev) => window.removeEventListener(ev, onActivity));
+    };
+  }, [autoLockMs]);
+
+  // Warn before closing the tab with changes that haven't reached storage/the cloud
+  useEffect(() => {
+    if (!hasUnsavedChanges && saveStatus !== "syncing" && saveStatus !== "error") return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => { e.preventDefault(); e.returnValue = ""; };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [hasUnsavedChanges, saveStatus]);
 
   // Track changes
   useEffect(() => {
-    if (loadedOnce) {
+    if (loadedOnce && state !== mergedStateRef.current) {
       setHasUnsavedChanges(true);
     }
   }, [state]);
@@ -183,8 +395,11 @@ export default function App() {
 
   useEffect(() => {
     // seed allocations for this month from the most recent earlier month
-    // BUT only carry forward to FUTURE months, not backwards to past months
-    setState((s) => {
+    // BUT only carry forward to FUTURE months, not backwards to past months.
+    // Seeding isn't an edit: nothing is stamped or logged, viewers see it too,
+    // and it doesn't make a save of its own (it goes out with the next edit).
+    setStateRaw((s) => {
+      const carried = carryIns(s.buckets, s.txns, activeMonthKey);
       const updated = s.buckets.map((b) => {
         // If this month already has an allocation, leave it alone
         if (b.allocations[activeMonthKey] !== undefined) return b;
@@ -201,15 +416,24 @@ export default function App() {
         // If we're navigating to a month BEFORE the bucket was created, don't show it
         if (activeMonthKey < firstMonth) return b;
         
+        // Goal buckets get whatever keeps them on schedule
+        if (isGoalBucket(b)) {
+          const need = requiredContribution(b.goal, activeMonthKey, carried[b.id] || 0);
+          return { ...b, allocations: { ...b.allocations, [activeMonthKey]: need } };
+        }
+
         // Otherwise, carry forward from the most recent earlier month
         const prevKeys = allocationKeys.filter((k) => k < activeMonthKey);
         const prev = prevKeys[prevKeys.length - 1];
         const carry = prev ? b.allocations[prev] : 0;
         return { ...b, allocations: { ...b.allocations, [activeMonthKey]: carry } };
       });
-      return { ...s, buckets: updated };
+      if (updated.every((b, i) => b === s.buckets[i])) return s;
+      const next = { ...s, buckets: updated };
+      if (s === mergedStateRef.current) mergedStateRef.current = next;
+      return next;
     });
-  }, [activeMonthKey]);
+  }, [activeMonthKey, loadedOnce]);
 
   // Derived
   const incomeBucket = state.buckets.find((b) => b.isIncome)!;
@@ -220,20 +444,39 @@ export default function App() {
   });
 
   const monthTxns = useMemo(
-    () => state.txns.filter((t) => monthKeyFrom(t.date) === activeMonthKey && !t.deleted),
+    () => state.txns.filter((t) => monthKeyFrom(t.date) === activeMonthKey && isBudgetTxn(t)),
     [state.txns, activeMonthKey]
   );
 
   const totals = useMemo(() => {
-    const income = monthTxns.filter((t) => t.bucketId === incomeBucket.id).reduce((s, t) => s + t.amount, 0);
+    const income = monthTxns.reduce((s, t) => s + amountInBucket(t, incomeBucket.id), 0);
     const allocated = nonIncomeBuckets.reduce((sum, b) => sum + (b.allocations[activeMonthKey] || 0), 0);
     const spent = monthTxns.filter((t) => t.amount < 0).reduce((s, t) => s + Math.abs(t.amount), 0);
     const savings = income - spent;
-    return { income, allocated, spent, savings };
+    // Money set aside in goal buckets this month is savings, but not free to spend
+    const goalSavings = nonIncomeBuckets.filter(isGoalBucket).reduce((sum, b) => sum + (b.allocations[activeMonthKey] || 0), 0);
+    const freeSavings = savings - goalSavings;
+    return { income, allocated, spent, savings, goalSavings, freeSavings };
   }, [monthTxns, incomeBucket.id, nonIncomeBuckets, activeMonthKey]);
 
-  const unassigned = useMemo(() => monthTxns.filter((t) => t.bucketId === null), [monthTxns]);
-  const deleted = useMemo(() => state.txns.filter((t) => !!t.deleted && monthKeyFrom(t.date) === activeMonthKey), [state.txns, activeMonthKey]);
+  // Txn lists can be narrowed to what one member spent (totals always cover everyone)
+  const [spenderFilter, setSpenderFilter] = useState<ID | "">("");
+  const spentByFilter = (t: Txn) => !spenderFilter || spenderOf(t) === spenderFilter;
+  const unassigned = useMemo(() => monthTxns.filter((t) => isUnassigned(t) && (!spenderFilter || spenderOf(t) === spenderFilter)), [monthTxns, spenderFilter]);
+  const transfers = useMemo(() => state.txns.filter((t) => isTransfer(t) && !t.deleted && monthKeyFrom(t.date) === activeMonthKey), [state.txns, activeMonthKey]);
+  const deleted = useMemo(() => state.txns.filter((t) => !!t.deleted && monthKeyFrom(t.date) === activeMonthKey && (!spenderFilter || spenderOf(t) === spenderFilter)), [state.txns, activeMonthKey, spenderFilter]);
+
+  // Bucket suggestions learned from past manual assignments
+  const suggestionModel = useMemo(() => buildSuggestionModel(state.txns), [state.txns]);
+  const suggestions = useMemo(() => {
+    const valid = new Set([incomeBucket.id, ...nonIncomeBuckets.map((b) => b.id)]);
+    const out: Record<ID, Suggestion> = {};
+    unassigned.forEach((t) => {
+      const s = suggestBucket(suggestionModel, t, valid);
+      if (s) out[t.id] = s;
+    });
+    return out;
+  }, [suggestionModel, unassigned, incomeBucket.id, nonIncomeBuckets]);
 
   // Pulse state per bucket
   const [pulsing, setPulsing] = useState<Record<string, number>>({});
@@ -242,13 +485,21 @@ export default function App() {
     setPulsing((m) => ({ ...m, [bucketId]: Date.now() }));
   }
 
-  // Amount left per bucket for month
+  // Balance rolled into this month for buckets with a rollover mode
+  const carryIn = useMemo(() => carryIns(state.buckets, state.txns, activeMonthKey), [state.buckets, state.txns, activeMonthKey]);
+
+  // Amount left per bucket for month (including any carried-in balance)
   function leftFor(bucket: Bucket): number {
-    const sumAssigned = monthTxns.filter((t) => t.bucketId === bucket.id).reduce((s, t) => s + t.amount, 0);
-    return (bucket.allocations[activeMonthKey] || 0) + sumAssigned;
+    const sumAssigned = monthTxns.reduce((s, t) => s + amountInBucket(t, bucket.id), 0);
+    return (bucket.allocations[activeMonthKey] || 0) + (carryIn[bucket.id] || 0) + sumAssigned;
   }
 
   // Actions
+  const bucketName = (id: ID) => state.buckets.find((b) => b.id === id)?.name ?? "bucket";
+  const txnName = (id: ID) => {
+    const t = state.txns.find((x) => x.id === id);
+    return t ? `"${extractTitle(t.description)}"` : "transaction";
+  };
   function updateAlloc(bucketId: ID, value: number) {
     setState((s) => ({
       ...s,
@@ -257,15 +508,40 @@ export default function App() {
           ? { ...b, allocations: { ...b.allocations, [activeMonthKey]: value } }
           : b
       ),
-    }));
+    }), { label: "Change allocation", coalesce: `alloc:${bucketId}:${activeMonthKey}` });
   }
   
+  function updateBucket(bucketId: ID, patch: Partial<Bucket>) {
+    setState((s) => ({ ...s, buckets: s.buckets.map((b) => (b.id === bucketId ? { ...b, ...patch } : b)) }));
+  }
+
+  // Set or clear a bucket's savings goal (a target of zero or less clears it);
+  // this month's allocation follows the new schedule
+  function setGoal(bucketId: ID, goal: SavingsGoal | undefined) {
+    if (goal && !(goal.target > 0)) goal = undefined;
+    setState((s) => ({
+      ...s,
+      buckets: s.buckets.map((b) => {
+        if (b.id !== bucketId) return b;
+        const next: Bucket = { ...b, goal };
+        if (!isGoalBucket(next)) return next;
+        const need = requiredContribution(next.goal, activeMonthKey, carryIn[b.id] || 0);
+        return { ...next, allocations: { ...next.allocations, [activeMonthKey]: need } };
+      }),
+    }));
+  }
+
   // ENHANCED: Add bucket with choice of scope
-  function addBucket(name: string, alloc: number, addToAllFuture: boolean) {
+  function addBucket(name: string, alloc: number, addToAllFuture: boolean, goal?: SavingsGoal) {
     if (!name) return;
     const id = uid();
     
-    if (addToAllFuture) {
+    if (goal) {
+      // Goal buckets start empty; later months are seeded with the required contribution
+      const bucket: Bucket = { id, name, goal, allocations: {} };
+      const need = isGoalBucket(bucket) ? requiredContribution(bucket.goal, activeMonthKey, 0) : 0;
+      setState((s) => ({ ...s, buckets: [...s.buckets, { ...bucket, allocations: { [activeMonthKey]: need } }] }), { label: `Add ${name}` });
+    } else if (addToAllFuture) {
       // Add to current month and all future months (next 12 months)
       const allocations: Record<string, number> = {};
       const currentDate = new Date(centerDate);
@@ -276,10 +552,10 @@ export default function App() {
         currentDate.setMonth(currentDate.getMonth() + 1);
       }
       
-      setState((s) => ({ ...s, buckets: [...s.buckets, { id, name, allocations }] }));
+      setState((s) => ({ ...s, buckets: [...s.buckets, { id, name, allocations }] }), { label: `Add ${name}` });
     } else {
       // Add only for current month
-      setState((s) => ({ ...s, buckets: [...s.buckets, { id, name, allocations: { [activeMonthKey]: alloc } }] }));
+      setState((s) => ({ ...s, buckets: [...s.buckets, { id, name, allocations: { [activeMonthKey]: alloc } }] }), { label: `Add ${name}` });
     }
   }
   
@@ -287,19 +563,108 @@ export default function App() {
     setState((s) => ({
       ...s,
       buckets: s.buckets.map((b) => b.id === bucketId ? { ...b, deletedMonths: { ...(b.deletedMonths || {}), [activeMonthKey]: true } } : b),
-    }));
+    }), { label: `Deleted ${bucketName(bucketId)} for ${activeMonthKey}`, destructive: true });
   }
   function reassignTxn(id: ID, bucketId: ID | null) {
-    setState((s) => ({ ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, bucketId } : t)) }));
+    // giving a transfer leg a bucket turns it back into ordinary spending/income
+    setState((s) => ({ ...s, txns: (bucketId ? unlinkTransfer(s.txns, id) : s.txns).map((t) => (t.id === id ? { ...t, bucketId, splits: undefined } : t)) }),
+      { label: bucketId ? `Move to ${bucketName(bucketId)}` : "Unassign transaction" });
+  }
+  function unlinkTransferTxn(id: ID) {
+    setState((s) => ({ ...s, txns: unlinkTransfer(s.txns, id) }));
   }
+  // Link matching opposite amounts across accounts; returns how many pairs were found
+  function linkAllTransfers(): number {
+    const pairs = detectTransfers(state.txns);
+    setState((s) => ({ ...s, txns: linkTransfers(s.txns, detectTransfers(s.txns)) }));
+    return pairs.length;
+  }
+  // Replace a txn's split parts; null removes the split and returns it to Unassigned
+  function setTxnSplits(id: ID, splits: TxnSplit[] | null) {
+    setState((s) => ({ ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, bucketId: null, splits: splits ?? undefined } : t)) }));
+  }
+  function setTxnSpender(id: ID, spentBy: ID | undefined) {
+    setState((s) => ({ ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, spentBy } : t)) }));
+  }
+
   function softDeleteTxn(id: ID) {
-    setState((s) => ({ ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, deleted: true } : t)) }));
+    setState((s) => ({ ...s, txns: unlinkTransfer(s.txns, id).map((t) => (t.id === id ? { ...t, deleted: true } : t)) }),
+      { label: `Deleted ${txnName(id)}`, destructive: true });
   }
   function restoreTxn(id: ID) {
-    setState((s) => ({ ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, deleted: false } : t)) }));
+    setState((s) => ({ ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, deleted: false } : t)) }), { label: "Restore transaction" });
   }
   function deleteForever(id: ID) {
-    setState((s) => ({ ...s, txns: s.txns.filter((t) => t.id !== id) }));
+    setState((s) => ({ ...s, txns: s.txns.filter((t) => t.id !== id) }), { label: `Permanently deleted ${txnName(id)}`, destructive: true });
+  }
+
+  function acceptAllSuggestions() {
+    const accepted = { ...suggestions };
+    setState((s) => ({ ...s, txns: s.txns.map((t) => (accepted[t.id] && isUnassigned(t) ? { ...t, bucketId: accepted[t.id].bucketId } : t)) }));
+    new Set(Object.values(accepted).map((x) => x.bucketId)).forEach((id) => triggerPulse(id));
+  }
+
+  // Snapshots (lib/audit); saving one isn't an edit to undo, restoring one is
+  function saveSnapshot(name: string) {
+    const snapshot = { id: uid(), name, at: new Date().toISOString(), by: memberId };
+    setState((s) => ({ ...s, snapshots: [...(s.snapshots || []), snapshot] }), { label: "Save snapshot", undoable: false });
+  }
+  function restoreFromSnapshot(snapshot: Snapshot) {
+    setState((s) => restoreSnapshot(s, snapshot), { label: `Restored snapshot "${snapshot.name}"`, destructive: true });
+  }
+
+  // Rules
+  function saveRules(rules: Rule[]) {
+    setState((s) => ({ ...s, rules }));
+  }
+  // Re-run rules over the active month's unassigned txns; returns how many were assigned
+  function rerunRulesForMonth(): number {
+    const bucketIds = new Set(state.buckets.map((b) => b.id));
+    const rerun = (txns: Txn[]) =>
+      txns.map((t) => (monthKeyFrom(t.date) === activeMonthKey ? applyRules([t], state.rules || [], bucketIds)[0] : t));
+    const assigned = rerun(state.txns).filter((t, i) => t !== state.txns[i]).length;
+    setState((s) => ({ ...s, txns: rerun(s.txns) }));
+    return assigned;
+  }
+
+  function saveRecurring(recurring: RecurringItem[]) {
+    setState((s) => ({ ...s, recurring }));
+  }
+  // Link already-imported txns to recurring items; returns how many were matched
+  function rematchRecurring(): number {
+    const matched = matchRecurring(state.txns, state.recurring || [], state.txns);
+    const count = matched.filter((t, i) => t !== state.txns[i]).length;
+    setState((s) => ({ ...s, txns: matchRecurring(s.txns, s.recurring || [], s.txns) }));
+    return count;
+  }
+
+  // Start tracking a detected subscription as a recurring bill and link its past charges
+  function trackSubscription(sub: DetectedSubscription) {
+    const item = subscriptionToRecurring(sub, uid());
+    setState((s) => {
+      const recurring = [...(s.recurring || []), item];
+      return { ...s, recurring, txns: matchRecurring(s.txns, [item], s.txns) };
+    });
+  }
+  function dismissSubscription(key: string) {
+    setState((s) => ({ ...s, dismissedSubscriptions: [...(s.dismissedSubscriptions || []), key] }));
+  }
+
+  function accountName(id?: ID) {
+    return id ? (state.accounts || []).find((a) => a.id === id)?.name : undefined;
+  }
+  function saveAccounts(accounts: Account[]) {
+    setState((s) => ({ ...s, accounts }));
+  }
+  function setTxnCleared(id: ID, cleared: boolean) {
+    setState((s) => ({ ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, cleared } : t)) }));
+  }
+  function completeReconcile(accountId: ID, date: string, balance: number) {
+    setState((s) => ({
+      ...s,
+      txns: finishReconcile(s.txns, accountId),
+      accounts: (s.accounts || []).map((a) => (a.id === accountId ? { ...a, lastReconciled: { date, balance } } : a)),
+    }));
   }
 
   // Drag & drop
@@ -319,16 +684,75 @@ export default function App() {
     if (fromUnassigned && txn.amount < 0) triggerPulse(bucketId);
   }
 
-  // CSV import / export
-  function importCSV(file: File) {
+  // Statement import (CSV, OFX/QFX, QIF) / export
+  function importFile(file: File) {
     const reader = new FileReader();
     reader.onload = () => {
       const text = String(reader.result || "");
-      const txns = parseCSV_3col(text);
-      setState((s) => ({ ...s, txns: [...txns, ...s.txns] }));
+      if (/\.(ofx|qfx)$/i.test(file.name) || looksLikeOFX(text)) { reviewParsed(file.name, parseOFX(text)); return; }
+      if (/\.qif$/i.test(file.name) || looksLikeQIF(text)) { reviewParsed(file.name, parseQIF(text)); return; }
+      const table = readCSV(text);
+      if (!table.rows.length) return;
+      const profile = detectProfile(table.rows, state.bankProfiles || []);
+      // Known bank: skip straight to review. Otherwise ask how the columns map.
+      if (profile) reviewImport({ fileName: file.name, text, profile });
+      else setImportDraft({ fileName: file.name, text, profile: { id: "", name: "", ...guessMapping(table) } });
     };
     reader.readAsText(file);
   }
+
+  function reviewImport(draft: ImportDraft) {
+    reviewParsed(draft.fileName, rowsToParsed(readCSV(draft.text, draft.profile.delimiter), draft.profile), draft);
+  }
+
+  // accountId: the statement's own account number (OFX ACCTID), if it has one
+  function reviewParsed(fileName: string, { rows, errors, accountId }: { rows: ParsedRow[]; errors: ImportIssue[]; accountId?: string }, draft?: ImportDraft) {
+    const parsed = rows.map((r): Txn => ({ id: uid(), ...r, bucketId: null }));
+    const txns = applyRules(assignFingerprints(parsed), state.rules || [], new Set(state.buckets.map((b) => b.id)));
+    setImportDraft(null);
+    // classified on the review screen, against whichever account it's going into
+    setPendingImport({ fileName, draft, txns, errors, accountRef: accountId });
+  }
+
+  // Wizard "Continue": remember the mapping as a bank profile when named
+  function continueImport(draft: ImportDraft) {
+    let profile = draft.profile;
+    if (profile.name.trim()) {
+      profile = { ...profile, id: profile.id || uid(), name: profile.name.trim() };
+      const saved = profile;
+      setState((s) => {
+        const others = (s.bankProfiles || []).filter((p) => p.id !== saved.id);
+        return { ...s, bankProfiles: [...others, saved] };
+      });
+    }
+    reviewImport({ ...draft, profile });
+  }
+
+  function deleteBankProfile(id: ID) {
+    setState((s) => ({ ...s, bankProfiles: (s.bankProfiles || []).filter((p) => p.id !== id) }));
+  }
+
+  // Commit the rows the user kept on the review screen
+  function commitImport(rows: ImportRow[], accountId: ID) {
+    const txns = rows.filter((r) => r.include).map((r) => ({ ...r.txn, accountId }));
+    const accountRef = pendingImport?.accountRef;
+    setState((s) => {
+      // Pair transfers first (new txns may be the other leg of one already on
+      // file), so recurring matching only sees what's left.
+      const all = [...txns, ...s.txns];
+      const linked = linkTransfers(all, detectTransfers(all, new Set(txns.map((t) => t.id))));
+      const existing = linked.slice(txns.length);
+      return {
+        ...s,
+        txns: [...matchRecurring(linked.slice(0, txns.length), s.recurring || [], existing), ...existing],
+        // remember the statement's account number so the next import picks this account
+        accounts: accountRef
+          ? (s.accounts || []).map((a) => (a.id === accountId && !a.externalId ? { ...a, externalId: accountRef } : a))
+          : s.accounts,
+      };
+    });
+    setPendingImport(null);
+  }
   
   function exportCSV() {
     const lines: string[] = [];
@@ -336,7 +760,7 @@ export default function App() {
     
     const months = new Set<string>();
     state.txns.forEach(t => {
-      if (!t.deleted) {
+      if (isBudgetTxn(t)) {
         months.add(monthKeyFrom(t.date));
       }
     });
@@ -344,12 +768,12 @@ export default function App() {
     const sortedMonths = Array.from(months).sort();
     
     sortedMonths.forEach(month => {
-      const monthTxnsForExport = state.txns.filter(t => monthKeyFrom(t.date) === month && !t.deleted);
+      const monthTxnsForExport = state.txns.filter(t => monthKeyFrom(t.date) === month && isBudgetTxn(t));
       
       state.buckets.forEach(bucket => {
         if (bucket.deletedMonths && bucket.deletedMonths[month]) return;
         
-        const bucketTxns = monthTxnsForExport.filter(t => t.bucketId === bucket.id);
+        const bucketTxns = monthTxnsForExport.filter(t => touchesBucket(t, bucket.id));
         const allocation = bucket.allocations[month] || 0;
         
         if (bucketTxns.length === 0) {
@@ -357,12 +781,12 @@ export default function App() {
         } else {
           bucketTxns.forEach((txn, idx) => {
             const allocationStr = idx === 0 ? allocation.toString() : "";
-            lines.push(`"${month}","${bucket.name}","${allocationStr}","${txn.date}","${txn.description.replace(/"/g, '""')}","${txn.amount}"`);
+            lines.push(`"${month}","${bucket.name}","${allocationStr}","${txn.date}","${txn.description.replace(/"/g, '""')}","${amountInBucket(txn, bucket.id)}"`);
           });
         }
       });
       
-      const unassignedTxns = monthTxnsForExport.filter(t => t.bucketId === null);
+      const unassignedTxns = monthTxnsForExport.filter(isUnassigned);
       unassignedTxns.forEach(txn => {
         lines.push(`"${month}","Unassigned","","${txn.date}","${txn.description.replace(/"/g, '""')}","${txn.amount}"`);
       });
@@ -386,6 +810,21 @@ export default function App() {
     URL.revokeObjectURL(url);
   }
 
+  // JSON backup restore; replacing or merging is one undoable edit
+  function importBackup(file: File) {
+    if (!editable) return;
+    file.text()
+      .then((text) => setBackupFile({ name: file.name, text }))
+      .catch((e) => setToast({ message: `Couldn't read ${file.name}: ${e instanceof Error ? e.message : String(e)}` }));
+  }
+  function applyBackup(backup: AppState, mode: ImportMode) {
+    setState((s) => planImport(s, backup, mode).state, {
+      label: mode === "replace" ? `Replaced the budget from ${backupFile?.name ?? "a backup"}` : `Merged ${backupFile?.name ?? "a backup"}`,
+      destructive: true,
+    });
+    setBackupFile(null);
+  }
+
   // UI Components
   function SummaryCard({ title, value, variant, droppable, onDrop }:{
     title: string; value: number; variant?: "default"|"income"|"savings";
@@ -470,6 +909,39 @@ export default function App() {
         <div className={`mt-6 text-center text-3xl font-semibold ${isNeg ? "text-gray-500" : "text-emerald-700"}`}>
           {fmtCurrency(left)}
         </div>
+        {isGoalBucket(bucket) && <GoalBar bucket={bucket} saved={left} />}
+        {!isGoalBucket(bucket) && !!carryIn[bucket.id] && (
+          <div className={`mt-1 text-center text-[11px] ${carryIn[bucket.id] < 0 ? "text-red-500" : "text-gray-400"}`}>
+            {carryIn[bucket.id] > 0 ? "+" : ""}{fmtCurrency(carryIn[bucket.id])} carried in
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const goalStatusStyle: Record<GoalStatus, { label: string; cls: string }> = {
+    "reached": { label: "Goal reached", cls: "text-emerald-700" },
+    "on-track": { label: "On track", cls: "text-emerald-700" },
+    "behind": { label: "Behind", cls: "text-amber-600" },
+    "overdue": { label: "Past target date", cls: "text-red-600" },
+  };
+
+  function GoalBar({ bucket, saved }: { bucket: Bucket; saved: number }) {
+    if (!isGoalBucket(bucket)) return null;
+    const g = goalProgress(bucket, activeMonthKey, carryIn[bucket.id] || 0, saved);
+    const st = goalStatusStyle[g.status];
+    return (
+      <div className="mt-3">
+        <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+          <div className={`h-full rounded-full ${g.status === "behind" || g.status === "overdue" ? "bg-amber-400" : "bg-emerald-500"}`} style={{ width: `${Math.round(g.progress * 100)}%` }} />
+        </div>
+        <div className="mt-1 flex justify-between text-[11px] text-gray-500">
+          <span>{fmtCurrency(g.saved)} of {fmtCurrency(bucket.goal.target)}</span>
+          <span className={`font-medium ${st.cls}`}>{st.label}</span>
+        </div>
+        {g.status !== "reached" && g.monthsLeft > 0 && (
+          <div className="text-[11px] text-gray-400">{fmtCurrency(g.required)}/mo for {g.monthsLeft} mo</div>
+        )}
       </div>
     );
   }
@@ -488,16 +960,22 @@ export default function App() {
     const [open, setOpen] = useState(false);
     const amtClass = t.amount < 0 ? "text-gray-600" : "text-emerald-700";
     const title = extractTitle(t.description);
+    const suggestion = isUnassigned(t) ? suggestions[t.id] : undefined;
     return (
       <div
         draggable={!t.deleted}
-        onDragStart={(e) => onDragStart(e, t.id, t.bucketId === null)}
+        onDragStart={(e) => onDragStart(e, t.id, isUnassigned(t))}
         className={`flex items-center justify-between gap-3 rounded-xl border bg-white/80 px-4 py-3 text-sm shadow-sm ${t.deleted ? "opacity-60" : "cursor-grab active:cursor-grabbing"}`}
       >
         <div className="min-w-0 flex-1">
           <div className="flex items-center gap-2">
             <div className="rounded bg-blue-50 px-2 py-0.5 text-[10px] font-medium text-blue-700">{fmtPretty(t.date)}</div>
             <div className="font-medium truncate">{title}</div>
+            {isTransfer(t) && (
+              <div className="whitespace-nowrap rounded bg-gray-100 px-2 py-0.5 text-[10px] font-medium text-gray-600">
+                ⇄ {t.amount < 0 ? "to" : "from"} {accountName(state.txns.find((x) => x.id === t.transferPeerId)?.accountId) ?? "another account"}
+              </div>
+            )}
             <button className="ml-1 text-[11px] text-gray-500 hover:underline" onClick={() => setOpen((v) => !v)}>{open ? "Hide" : "Details"}</button>
           </div>
           {open && (
@@ -509,18 +987,60 @@ export default function App() {
                   autoFocus
                   type="text"
                   value={t.description}
-                  onChange={(e) => setState((s) => ({ ...s, txns: s.txns.map((x) => x.id === t.id ? { ...x, description: e.target.value } : x) }))}
+                  onChange={(e) => setState((s) => ({ ...s, txns: s.txns.map((x) => x.id === t.id ? { ...x, description: e.target.value } : x) }), { label: "Edit description", coalesce: `desc:${t.id}` })}
                   onBlur={() => setEditing(false)}
                   className="mt-1 w-full rounded-md border px-2 py-1 text-[12px]"
                 />
               )}
+              {accountName(t.accountId) && (
+                <div className="mt-1 px-1 text-[11px] text-gray-400">Account: {accountName(t.accountId)}</div>
+              )}
+              {(t.payee || t.memo) && (
+                <div className="mt-1 px-1 text-[11px] text-gray-400">
+                  {t.payee && <span>Payee: {t.payee}</span>}
+                  {t.payee && t.memo && " · "}
+                  {t.memo && <span>Memo: {t.memo}</span>}
+                </div>
+              )}
+              {(state.members?.length ?? 0) > 0 && (
+                <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 px-1 text-[11px] text-gray-400">
+                  <label className="flex items-center gap-1">
+                    Spent by
+                    <select
+                      className="rounded border bg-white px-1 py-0.5 text-[11px] text-gray-600"
+                      value={spenderOf(t) ?? ""}
+                      disabled={!editable}
+                      onChange={(e) => setTxnSpender(t.id, e.target.value || undefined)}
+                    >
+                      <option value="">Nobody in particular</option>
+                      {state.members!.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                  </label>
+                  {memberName(state.members, t.createdBy) && <span>Added by {memberName(state.members, t.createdBy)}</span>}
+                  {t.updatedBy && t.updatedBy !== t.createdBy && memberName(state.members, t.updatedBy) && <span>Last changed by {memberName(state.members, t.updatedBy)}</span>}
+                </div>
+              )}
             </div>
           )}
         </div>
         <div className={`whitespace-nowrap font-semibold ${amtClass}`}>{fmtCurrency(t.amount)}</div>
-        {!t.deleted ? (
+        {!t.deleted && isTransfer(t) ? (
+          <div className="flex items-center gap-2">
+            <button className="rounded-md border px-2 py-1 text-[12px] hover:bg-gray-100" onClick={() => unlinkTransferTxn(t.id)} title="Treat both sides as ordinary transactions">Not a transfer</button>
+          </div>
+        ) : !t.deleted ? (
           <div className="flex items-center gap-2">
+            {suggestion && (
+              <button
+                className="whitespace-nowrap rounded-md border border-indigo-200 bg-indigo-50 px-2 py-1 text-[12px] text-indigo-700 hover:bg-indigo-100"
+                onClick={() => reassignTxn(t.id, suggestion.bucketId)}
+                title="Suggested from how you've assigned this merchant before"
+              >
+                → {state.buckets.find((b) => b.id === suggestion.bucketId)?.name} <span className="text-indigo-400">{Math.round(suggestion.confidence * 100)}%</span>
+              </button>
+            )}
             <BucketSelect value={t.bucketId} onChange={(b) => reassignTxn(t.id, b)} buckets={state.buckets.filter((b) => !b.isIncome)} />
+            <button className="rounded-md border px-2 py-1 text-[12px] hover:bg-gray-100" onClick={() => setSplitTxnId(t.id)} title="Divide across several buckets">Split</button>
             <button className="rounded-md border px-2 py-1 text-[12px] transition-colors hover:border-red-500 hover:text-red-600 hover:bg-red-50" onClick={() => softDeleteTxn(t.id)}>Delete</button>
           </div>
         ) : (
@@ -534,7 +1054,7 @@ export default function App() {
   }
 
   function BucketDetail({ bucket, onClose }: { bucket: Bucket; onClose: () => void }) {
-    const txns = monthTxns.filter((t) => t.bucketId === bucket.id);
+    const txns = monthTxns.filter((t) => touchesBucket(t, bucket.id) && spentByFilter(t));
     const left = leftFor(bucket);
     const [editingAlloc, setEditingAlloc] = useState(false);
     const [tmpAlloc, setTmpAlloc] = useState<number>(bucket.allocations[activeMonthKey] || 0);
@@ -584,7 +1104,71 @@ export default function App() {
             </div>
             <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
           </div>
-          <div className={`mb-4 text-2xl font-semibold ${left < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(left)} left</div>
+          <div className={`mb-1 text-2xl font-semibold ${left < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(left)} left</div>
+          {!!carryIn[bucket.id] && (
+            <div className="mb-1 text-sm text-gray-500">Includes {fmtCurrency(carryIn[bucket.id])} carried in from last month</div>
+          )}
+          {bucket.goal ? (
+            <div className="mb-4 mt-3 rounded-xl border bg-gray-50 p-3 text-sm text-gray-600">
+              <div className="flex flex-wrap items-center gap-2">
+                <span>Goal:</span>
+                <input
+                  type="number"
+                  min="0"
+                  className="w-28 rounded-md border px-2 py-1 text-right text-sm"
+                  defaultValue={bucket.goal.target}
+                  onBlur={(e) => setGoal(bucket.id, { ...bucket.goal!, target: Math.max(0, Number(e.target.value || 0)) })}
+                  title="Target amount"
+                />
+                <span>by</span>
+                <input
+                  type="month"
+                  className="rounded-md border px-2 py-1 text-sm"
+                  defaultValue={bucket.goal.targetDate}
+                  onBlur={(e) => e.target.value && setGoal(bucket.id, { ...bucket.goal!, targetDate: e.target.value })}
+                  title="Target month"
+                />
+                <button className="ml-auto text-xs text-red-600 hover:underline" onClick={() => setGoal(bucket.id, undefined)}>Remove goal</button>
+              </div>
+              <GoalBar bucket={bucket} saved={left} />
+              <div className="mt-1 text-[11px] text-gray-400">Goal buckets keep their whole balance from month to month.</div>
+            </div>
+          ) : (
+            <>
+            <div className="mb-4 mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>Rollover:</span>
+              <select
+                className="rounded-md border px-2 py-1 text-sm"
+                value={bucket.rollover?.mode ?? "none"}
+                onChange={(e) => {
+                  const mode = e.target.value as RolloverMode;
+                  updateBucket(bucket.id, { rollover: mode === "none" ? undefined : { mode, cap: bucket.rollover?.cap } });
+                }}
+              >
+                <option value="none">None — start fresh each month</option>
+                <option value="surplus">Carry unspent money</option>
+                <option value="both">Carry unspent and overspent</option>
+                <option value="capped">Carry unspent, up to a cap</option>
+              </select>
+              {bucket.rollover?.mode === "capped" && (
+                <input
+                  type="number"
+                  min="0"
+                  className="w-24 rounded-md border px-2 py-1 text-right text-sm"
+                  defaultValue={bucket.rollover.cap ?? 0}
+                  onBlur={(e) => updateBucket(bucket.id, { rollover: { mode: "capped", cap: Math.max(0, Number(e.target.value || 0)) } })}
+                  title="Maximum carried into next month"
+                />
+              )}
+            </div>
+              <button
+                className="mb-4 text-xs text-indigo-600 hover:underline"
+                onClick={() => setGoal(bucket.id, { target: Math.max(0, bucket.allocations[activeMonthKey] || 0) * 12, targetDate: monthKey(new Date(centerDate.getFullYear() + 1, centerDate.getMonth(), 1)) })}
+              >
+                Turn into a savings goal
+              </button>
+            </>
+          )}
           <div className="space-y-2">
             {txns.length === 0 ? (
               <div className="text-sm text-gray-400">No items yet. Drag transactions from the main view.</div>
@@ -593,10 +1177,17 @@ export default function App() {
                 <div key={t.id} className="flex items-center justify-between rounded-xl border bg-white/80 px-3 py-2 text-sm shadow-sm">
                   <div className="min-w-0 flex-1">
                     <div className="font-medium text-gray-600">{extractTitle(t.description)}</div>
-                    <div className="text-[11px] font-medium text-blue-700">{fmtPretty(t.date)}</div>
+                    <div className="text-[11px] font-medium text-blue-700">
+                      {fmtPretty(t.date)}
+                      {isSplit(t) && <span className="ml-2 text-gray-400">split of {fmtCurrency(t.amount)}</span>}
+                    </div>
                   </div>
-                  <div className={`whitespace-nowrap font-semibold ${t.amount < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(t.amount)}</div>
-                  <button className="ml-2 rounded-md border px-2 py-1 text-[12px]" onClick={() => reassignTxn(t.id, null)}>Unassign</button>
+                  <div className={`whitespace-nowrap font-semibold ${t.amount < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(amountInBucket(t, bucket.id))}</div>
+                  {isSplit(t) ? (
+                    <button className="ml-2 rounded-md border px-2 py-1 text-[12px]" onClick={() => setSplitTxnId(t.id)}>Edit split</button>
+                  ) : (
+                    <button className="ml-2 rounded-md border px-2 py-1 text-[12px]" onClick={() => reassignTxn(t.id, null)}>Unassign</button>
+                  )}
                 </div>
               ))
             )}
@@ -617,11 +1208,13 @@ export default function App() {
           const dt = new Date(centerDate); dt.setMonth(dt.getMonth() + offset);
           const isCenter = offset === 0;
           const key = monthKey(dt);
-          const mTxns = state.txns.filter((t) => monthKeyFrom(t.date) === key && !t.deleted);
+          const mTxns = state.txns.filter((t) => monthKeyFrom(t.date) === key && isBudgetTxn(t));
           const spent = mTxns.filter((t) => t.amount < 0).reduce((s, t) => s + Math.abs(t.amount), 0);
-          const income = mTxns.filter((t) => t.bucketId === incomeBucket.id).reduce((s, t) => s + t.amount, 0);
+          const income = mTxns.reduce((s, t) => s + amountInBucket(t, incomeBucket.id), 0);
           const saved = income - spent;
           const isFuture = dt > new Date();
+          const pending = pendingForMonth(state.recurring || [], state.txns, key);
+          const expected = pending.reduce((s, p) => s + p.amount, 0);
           return (
             <button
               key={offset}
@@ -641,6 +1234,11 @@ export default function App() {
               ) : (
                 <div className="mt-2 text-[12px] text-gray-500">Plan budgets →</div>
               )}
+              {pending.length > 0 && (
+                <div className="mt-1 text-[11px] text-amber-600" title={pending.map((p) => `${fmtPretty(p.date)} ${p.item.name}`).join("\n")}>
+                  {pending.length} pending · {fmtCurrency(expected)}
+                </div>
+              )}
             </button>
           );
         })}
@@ -655,6 +1253,40 @@ export default function App() {
   const [newName, setNewName] = useState(""); 
   const [newAlloc, setNewAlloc] = useState("0");
   const [addToAllFuture, setAddToAllFuture] = useState(false);
+  const [newIsGoal, setNewIsGoal] = useState(false);
+  const [newGoalTarget, setNewGoalTarget] = useState("");
+  const [newGoalDate, setNewGoalDate] = useState("");
+
+  if (unreadable) {
+    return (
+      <RepairScreen
+        report={unreadable}
+        onStartOver={() => {
+          const blank = seedState();
+          mergedStateRef.current = null; // a fresh budget is worth saving over the damaged one
+          setStateRaw(blank);
+          setUnreadable(null);
+          setLoadedOnce(true);
+        }}
+      />
+    );
+  }
+
+  if (lockStatus?.enabled && !unlocked) {
+    return (
+      <UnlockScreen
+        onUnlock={async (pin) => {
+          const ok = await unlockLocal(pin);
+          if (ok) setLockStatus(await localLockStatus());
+          return ok;
+        }}
+        onErase={async () => {
+          await eraseLocalData();
+          setLockStatus(await localLockStatus());
+        }}
+      />
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
@@ -663,11 +1295,17 @@ export default function App() {
         <div className="text-2xl font-bold">Trowbridge Family Budget ✨</div>
         <div className="flex items-center gap-2">
           <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white">
-            <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) importCSV(f); e.currentTarget.value = ""; }} />
-            Import CSV
+            <input type="file" accept=".csv,.ofx,.qfx,.qif,text/csv" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.currentTarget.value = ""; }} />
+            Import Statement
           </label>
           <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={exportCSV}>Export CSV</button>
           <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={exportJSON}>Export JSON</button>
+          {editable && (
+            <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white">
+              <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) importBackup(f); e.currentTarget.value = ""; }} />
+              Import JSON backup
+            </label>
+          )}
           
           <button 
             className="rounded-lg border bg-purple-50 border-purple-300 px-3 py-2 text-sm shadow-sm hover:bg-purple-100 text-purple-700 font-semibold"
@@ -676,6 +1314,17 @@ export default function App() {
             📊 Analytics
           </button>
           
+          <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={() => setRulesOpen(true)}>⚙️ Rules</button>
+          <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={() => setBillsOpen(true)}>📅 Bills</button>
+          <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={() => setAccountsOpen(true)}>🏦 Accounts</button>
+          <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={() => setHistoryOpen(true)}>🕘 History</button>
+          {connected && (
+            <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={() => setMembersOpen(true)}>👥 Members</button>
+          )}
+          {lockStatus?.supported && (
+            <button className="rounded-lg border bg-white/70 px-3 py-2 text-sm shadow-sm hover:bg-white" onClick={() => setLockOpen(true)}>{lockStatus.enabled ? "🔒 Locked at rest" : "🔓 Lock"}</button>
+          )}
+          
           <button 
             className="rounded-lg border bg-yellow-50 border-yellow-300 px-3 py-2 text-sm shadow-sm hover:bg-yellow-100 text-yellow-700 font-semibold"
             onClick={() => setWhiteboardOpen(true)}
@@ -685,30 +1334,55 @@ export default function App() {
           
           <button 
             className={`rounded-lg border px-3 py-2 text-sm shadow-sm font-semibold ${
-              hasUnsavedChanges 
-                ? "bg-blue-600 text-white hover:bg-blue-700" 
+              shownStatus === "error"
+                ? "bg-red-50 border-red-300 text-red-700"
+                : shownStatus === "syncing" || hasUnsavedChanges
+                ? "bg-blue-50 border-blue-300 text-blue-700"
+                : shownStatus === "local"
+                ? "bg-amber-50 border-amber-300 text-amber-700"
                 : "bg-emerald-50 border-emerald-300 text-emerald-700"
             }`}
-            onClick={manualSave}
-            disabled={isSaving}
+            onClick={() => persist()}
+            disabled={shownStatus === "syncing"}
+            title={shownStatus === "error" ? `${saveError}${retryAt ? " — retrying automatically" : ""}. Click to retry now.` : "Changes save automatically. Click to save now."}
           >
-            {isSaving ? "Saving..." : hasUnsavedChanges ? "💾 Save Changes" : "✓ Saved"}
+            {shownStatus === "syncing" ? "⟳ Syncing…"
+              : shownStatus === "error" ? "⚠ Sync failed"
+              : hasUnsavedChanges ? "✎ Unsaved changes"
+              : shownStatus === "local" ? "✓ Saved locally"
+              : "✓ Synced"}
           </button>
           
           <button
             className={`rounded-lg border px-3 py-2 text-sm shadow-sm ${householdId && passphrase ? "bg-emerald-50 border-emerald-300 text-emerald-700" : "bg-white/70"}`}
             onClick={() => setConnectOpen(true)}
           >
-            {householdId && passphrase ? "Cloud: Connected" : "Cloud: Connect"}
+            {householdId && passphrase ? `Cloud: ${memberName(state.members, memberId ?? undefined) ?? "Connected"}` : "Cloud: Connect"}
           </button>
         </div>
       </div>
 
+      {repairs.length > 0 && (
+        <div className="mx-auto mb-4 max-w-6xl rounded-xl border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+          <div className="flex items-start justify-between gap-3">
+            <div>🩹 Some saved data had problems and was repaired when it loaded. Check the items below; the repair is saved with your next change.</div>
+            <button className="text-amber-600 hover:text-amber-900" onClick={() => setRepairs([])} title="Dismiss">✕</button>
+          </div>
+          <RepairIssues reports={repairs} />
+        </div>
+      )}
+
+      {!editable && (
+        <div className="mx-auto mb-4 max-w-6xl rounded-xl border border-sky-200 bg-sky-50 px-4 py-2 text-sm text-sky-800">
+          👀 View only: you can look around, but changes won't be made. Ask an owner if you need edit access.
+        </div>
+      )}
+
       {/* Month scroller */}
       <MonthScroller />
 
       {/* Row 1 – Summary */}
-      <div className="mx-auto mb-6 grid max-w-6xl grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="mx-auto mb-6 grid max-w-6xl grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
         <SummaryCard
           title="Income"
           value={totals.income}
@@ -718,7 +1392,8 @@ export default function App() {
         />
         <SummaryCard title="Budget" value={totals.allocated} />
         <SummaryCard title="Spent" value={totals.spent} />
-        <SummaryCard title="Savings" value={totals.savings} variant="savings" />
+        <SummaryCard title="Saved toward goals" value={totals.goalSavings} />
+        <SummaryCard title="Free savings" value={totals.freeSavings} variant="savings" />
       </div>
 
       {/* Row 2+ – Buckets grid */}
@@ -739,9 +1414,26 @@ export default function App() {
         </div>
       </div>
 
+      {(state.members?.length ?? 0) > 0 && (
+        <div className="mx-auto mb-3 flex max-w-6xl items-center justify-end gap-2 text-sm text-gray-600">
+          Spent by
+          <select className="rounded-md border bg-white px-2 py-1" value={spenderFilter} onChange={(e) => setSpenderFilter(e.target.value)}>
+            <option value="">Everyone</option>
+            {state.members!.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </div>
+      )}
+
       {/* Row 3 – Unassigned */}
       <div className="mx-auto mb-8 max-w-6xl">
-        <div className="mb-3 text-sm font-semibold text-gray-500">Unassigned</div>
+        <div className="mb-3 flex items-center justify-between">
+          <div className="text-sm font-semibold text-gray-500">Unassigned</div>
+          {Object.keys(suggestions).length > 0 && (
+            <button className="rounded-md border border-indigo-200 bg-indigo-50 px-2 py-1 text-[12px] text-indigo-700 hover:bg-indigo-100" onClick={acceptAllSuggestions}>
+              Accept all suggestions ({Object.keys(suggestions).length})
+            </button>
+          )}
+        </div>
         <div className="flex flex-col gap-2">
           {(showAllUnassigned ? unassigned : unassigned.slice(0, 4)).map((t) => (<TxnCard key={t.id} t={t} />))}
         </div>
@@ -752,6 +1444,14 @@ export default function App() {
         )}
       </div>
 
+      {/* Transfers between our own accounts (not spending or income) */}
+      {transfers.length > 0 && (
+        <div className="mx-auto mb-8 max-w-6xl">
+          <div className="mb-3 text-sm font-semibold text-gray-500">Transfers</div>
+          <div className="flex flex-col gap-2">{transfers.filter(spentByFilter).map((t) => (<TxnCard key={t.id} t={t} />))}</div>
+        </div>
+      )}
+
       {/* Row 4 – Deleted */}
       <div className="mx-auto mb-8 max-w-6xl">
         <div className="mb-3 text-sm font-semibold text-gray-500">Deleted</div>
@@ -779,54 +1479,86 @@ export default function App() {
                 value={newName} 
                 onChange={(e) => setNewName(e.target.value)} 
               />
-              <input 
-                className="w-full rounded-md border px-3 py-2" 
-                placeholder="Amount" 
-                type="number" 
-                value={newAlloc} 
-                onChange={(e) => setNewAlloc(e.target.value)} 
-              />
-              
-              {/* NEW: Choice of scope */}
-              <div className="rounded-lg border border-gray-200 p-3 bg-gray-50">
-                <div className="text-sm font-medium text-gray-700 mb-2">When should this bucket apply?</div>
-                <label className="flex items-center gap-2 mb-2 cursor-pointer">
-                  <input 
-                    type="radio" 
-                    name="bucketScope" 
-                    checked={!addToAllFuture}
-                    onChange={() => setAddToAllFuture(false)}
-                    className="text-indigo-600"
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={newIsGoal} onChange={(e) => setNewIsGoal(e.target.checked)} />
+                Savings goal (sinking fund)
+              </label>
+              {newIsGoal ? (
+                <div className="flex gap-2">
+                  <input
+                    className="w-full rounded-md border px-3 py-2"
+                    placeholder="Target amount"
+                    type="number"
+                    min="0"
+                    value={newGoalTarget}
+                    onChange={(e) => setNewGoalTarget(e.target.value)}
                   />
-                  <div>
-                    <div className="text-sm font-medium">This month only</div>
-                    <div className="text-xs text-gray-500">Will automatically carry forward when you navigate to future months</div>
-                  </div>
-                </label>
-                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    className="w-full rounded-md border px-3 py-2"
+                    type="month"
+                    min={activeMonthKey}
+                    value={newGoalDate}
+                    onChange={(e) => setNewGoalDate(e.target.value)}
+                    title="Target month"
+                  />
+                </div>
+              ) : (
+                <>
                   <input 
-                    type="radio" 
-                    name="bucketScope" 
-                    checked={addToAllFuture}
-                    onChange={() => setAddToAllFuture(true)}
-                    className="text-indigo-600"
+                    className="w-full rounded-md border px-3 py-2" 
+                    placeholder="Amount" 
+                    type="number" 
+                    value={newAlloc} 
+                    onChange={(e) => setNewAlloc(e.target.value)} 
                   />
-                  <div>
-                    <div className="text-sm font-medium">All future months (next 12)</div>
-                    <div className="text-xs text-gray-500">Creates the bucket in this month and the next 12 months</div>
-                  </div>
-                </label>
-              </div>
               
+                  {/* NEW: Choice of scope */}
+                  <div className="rounded-lg border border-gray-200 p-3 bg-gray-50">
+                    <div className="text-sm font-medium text-gray-700 mb-2">When should this bucket apply?</div>
+                    <label className="flex items-center gap-2 mb-2 cursor-pointer">
+                      <input 
+                        type="radio" 
+                        name="bucketScope" 
+                        checked={!addToAllFuture}
+                        onChange={() => setAddToAllFuture(false)}
+                        className="text-indigo-600"
+                      />
+                      <div>
+                        <div className="text-sm font-medium">This month only</div>
+                        <div className="text-xs text-gray-500">Will automatically carry forward when you navigate to future months</div>
+                      </div>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input 
+                        type="radio" 
+                        name="bucketScope" 
+                        checked={addToAllFuture}
+                        onChange={() => setAddToAllFuture(true)}
+                        className="text-indigo-600"
+                      />
+                      <div>
+                        <div className="text-sm font-medium">All future months (next 12)</div>
+                        <div className="text-xs text-gray-500">Creates the bucket in this month and the next 12 months</div>
+                      </div>
+                    </label>
+                  </div>
+                </>
+              )}
+
               <div className="flex justify-end gap-2">
                 <button className="rounded-md border px-3 py-2" onClick={() => { setAddOpen(false); setAddToAllFuture(false); }}>Cancel</button>
                 <button 
-                  className="rounded-md bg-indigo-600 px-3 py-2 text-white" 
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" 
+                  disabled={newIsGoal && (!(Number(newGoalTarget) > 0) || !newGoalDate)}
                   onClick={() => { 
-                    addBucket(newName.trim(), Number(newAlloc || 0), addToAllFuture); 
+                    addBucket(newName.trim(), Number(newAlloc || 0), addToAllFuture,
+                      newIsGoal && Number(newGoalTarget) > 0 ? { target: Number(newGoalTarget), targetDate: newGoalDate } : undefined); 
                     setNewName(""); 
                     setNewAlloc("0"); 
                     setAddToAllFuture(false);
+                    setNewIsGoal(false);
+                    setNewGoalTarget("");
+                    setNewGoalDate("");
                     setAddOpen(false); 
                   }}
                 >
@@ -858,38 +1590,220 @@ export default function App() {
         />
       )}
 
-      {/* Cloud Connect modal */}
-      {connectOpen && (
-        <CloudModal
-          initialHousehold={householdId}
-          initialPassphrase={passphrase}
-          onClose={() => setConnectOpen(false)}
-          onSave={(hh, pp) => { setHouseholdId(hh); setPassphrase(pp); setConnectOpen(false); }}
+      {/* Import wizard + review */}
+      {importDraft && (
+        <ImportWizardModal
+          draft={importDraft}
+          profiles={state.bankProfiles || []}
+          onContinue={continueImport}
+          onDeleteProfile={deleteBankProfile}
+          onCancel={() => setImportDraft(null)}
+        />
+      )}
+      {pendingImport && (
+        <ImportReviewModal
+          fileName={pendingImport.fileName}
+          classify={(accountId) => classifyImport(pendingImport.txns, state.txns, accountId)}
+          errors={pendingImport.errors}
+          buckets={state.buckets}
+          accounts={(state.accounts || []).filter((a) => !a.closed)}
+          initialAccountId={(state.accounts || []).find((a) => pendingImport.accountRef && a.externalId === pendingImport.accountRef)?.id}
+          onCommit={commitImport}
+          onBack={pendingImport.draft ? () => { setImportDraft(pendingImport.draft!); setPendingImport(null); } : undefined}
+          onCancel={() => setPendingImport(null)}
         />
       )}
-    </div>
-  );
-}
 
-/* ============== Analytics Dashboard ============== */
-function AnalyticsDashboard({ state, activeMonthKey, onClose }: {
-  state: AppState;
-  activeMonthKey: string;
-  onClose: () => void;
-}) {
-  // Get last 6 months of data
-  const getLast6Months = () => {
-    const months: string[] = [];
-    const date = new Date();
-    for (let i = 5; i >= 0; i--) {
-      const d = new Date(date);
-      d.setMonth(d.getMonth() - i);
-      months.push(monthKey(d));
-    }
-    return months;
-  };
+      {/* Split editor */}
+      {splitTxnId && state.txns.some((t) => t.id === splitTxnId) && (
+        <SplitEditorModal
+          txn={state.txns.find((t) => t.id === splitTxnId)!}
+          buckets={[incomeBucket, ...nonIncomeBuckets]}
+          onSave={(splits) => { setTxnSplits(splitTxnId, splits); setSplitTxnId(null); }}
+          onClose={() => setSplitTxnId(null)}
+        />
+      )}
 
-  const months = getLast6Months();
+      {/* Rules Modal */}
+      {rulesOpen && (
+        <RulesModal
+          rules={state.rules || []}
+          buckets={state.buckets}
+          txns={state.txns}
+          activeMonthKey={activeMonthKey}
+          onChange={saveRules}
+          onRerun={rerunRulesForMonth}
+          onClose={() => setRulesOpen(false)}
+        />
+      )}
+
+      {/* Bill calendar + recurring items */}
+      {billsOpen && (
+        <BillCalendarModal
+          month={activeMonthKey}
+          items={state.recurring || []}
+          txns={state.txns}
+          buckets={state.buckets}
+          onManage={() => setRecurringOpen(true)}
+          onFindSubscriptions={() => setSubscriptionsOpen(true)}
+          onClose={() => setBillsOpen(false)}
+        />
+      )}
+      {subscriptionsOpen && (
+        <SubscriptionsModal
+          txns={state.txns}
+          dismissed={state.dismissedSubscriptions || []}
+          buckets={state.buckets}
+          onTrack={trackSubscription}
+          onDismiss={dismissSubscription}
+          onClose={() => setSubscriptionsOpen(false)}
+        />
+      )}
+      {recurringOpen && (
+        <RecurringModal
+          items={state.recurring || []}
+          buckets={state.buckets}
+          onChange={saveRecurring}
+          onRematch={rematchRecurring}
+          onClose={() => setRecurringOpen(false)}
+        />
+      )}
+
+      {accountsOpen && (
+        <AccountsModal
+          accounts={state.accounts || []}
+          txns={state.txns}
+          onChange={saveAccounts}
+          onToggleCleared={setTxnCleared}
+          onFinishReconcile={completeReconcile}
+          onLinkTransfers={linkAllTransfers}
+          onClose={() => setAccountsOpen(false)}
+        />
+      )}
+
+      {/* What just happened, with a way to take it back */}
+      {toast && (
+        <div className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-gray-900 px-4 py-2 text-sm text-white shadow-lg">
+          <span>{toast.message}</span>
+          {toast.undo && <button className="font-semibold text-indigo-300 hover:underline" onClick={undo}>Undo</button>}
+          {toast.redo && <button className="font-semibold text-indigo-300 hover:underline" onClick={redo}>Redo</button>}
+          <button className="text-gray-400 hover:text-white" onClick={() => setToast(null)} title="Dismiss">✕</button>
+        </div>
+      )}
+
+      {/* Save conflict: both devices changed the same items */}
+      {saveConflict && (
+        <ConflictModal
+          conflicts={saveConflict.conflict.conflicts}
+          buckets={saveConflict.conflict.merged.buckets}
+          onResolve={resolveSaveConflict}
+          onCancel={() => setSaveConflict(null)}
+        />
+      )}
+
+      {/* JSON backup restore */}
+      {backupFile && editable && (
+        <BackupImportModal
+          fileName={backupFile.name}
+          text={backupFile.text}
+          current={state}
+          onApply={applyBackup}
+          onClose={() => setBackupFile(null)}
+        />
+      )}
+
+      {/* Change log and snapshots */}
+      {historyOpen && (
+        <HistoryModal
+          state={state}
+          activeMonthKey={activeMonthKey}
+          canEdit={editable}
+          onSaveSnapshot={saveSnapshot}
+          onRestoreSnapshot={(snapshot) => { restoreFromSnapshot(snapshot); setHistoryOpen(false); }}
+          onDeleteSnapshot={(id) => setState((s) => ({ ...s, snapshots: (s.snapshots || []).filter((x) => x.id !== id) }), { label: "Delete snapshot", undoable: false })}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+
+      {/* Household members */}
+      {membersOpen && (
+        <MembersModal
+          members={state.members || []}
+          me={memberId}
+          canManage={canManageMembers(myRole)}
+          onAdd={async (name, role, memberPassphrase) => {
+            const id = uid();
+            await setMemberPassphrase(householdId, passphrase, id, memberPassphrase);
+            setState((s) => ({ ...s, members: [...(s.members || []), { id, name, role }] }));
+          }}
+          onResetPassphrase={(id, memberPassphrase) => setMemberPassphrase(householdId, passphrase, id, memberPassphrase)}
+          onChangeRole={(id, role) => setState((s) => ({ ...s, members: (s.members || []).map((m) => (m.id === id ? { ...m, role } : m)) }))}
+          onRemove={async (id) => {
+            await removeMemberKey(householdId, passphrase, id);
+            setState((s) => ({ ...s, members: (s.members || []).filter((m) => m.id !== id) }));
+            if (spenderFilter === id) setSpenderFilter("");
+          }}
+          onClose={() => setMembersOpen(false)}
+        />
+      )}
+
+      {/* Local lock settings */}
+      {lockOpen && lockStatus && (
+        <LocalLockModal
+          status={lockStatus}
+          onSetPin={async (pin) => {
+            await setLocalPin(pin, latestStateRef.current);
+            setLockStatus(await localLockStatus());
+          }}
+          onAutoLock={async (minutes) => {
+            await setAutoLockMinutes(minutes);
+            setLockStatus(await localLockStatus());
+          }}
+          onLockNow={lockNow}
+          onClose={() => setLockOpen(false)}
+        />
+      )}
+
+      {/* Cloud Connect modal */}
+      {connectOpen && (
+        <CloudModal
+          initialHousehold={householdId}
+          initialPassphrase={passphrase}
+          onClose={() => setConnectOpen(false)}
+          onSave={(hh, pp) => { setHouseholdId(hh); setPassphrase(pp); setConnectOpen(false); }}
+          onCheck={checkHousehold}
+          onRecover={recoverWithKey}
+          onChangePassphrase={connected ? async (next) => {
+            await changePassphrase(householdId, passphrase, next);
+            setPassphrase(next);
+            setConnectOpen(false);
+          } : undefined}
+          onCreateRecoveryKey={connected && canManageMembers(myRole) ? () => createRecoveryKey(householdId, passphrase) : undefined}
+        />
+      )}
+    </div>
+  );
+}
+
+/* ============== Analytics Dashboard ============== */
+function AnalyticsDashboard({ state, activeMonthKey, onClose }: {
+  state: AppState;
+  activeMonthKey: string;
+  onClose: () => void;
+}) {
+  // Get last 6 months of data
+  const getLast6Months = () => {
+    const months: string[] = [];
+    const date = new Date();
+    for (let i = 5; i >= 0; i--) {
+      const d = new Date(date);
+      d.setMonth(d.getMonth() - i);
+      months.push(monthKey(d));
+    }
+    return months;
+  };
+
+  const months = getLast6Months();
   
   // Calculate spending by bucket over time
   const spendingByBucket = useMemo(() => {
@@ -902,11 +1816,10 @@ function AnalyticsDashboard({ state, activeMonthKey, onClose }: {
       months.forEach(month => {
         const monthTxns = state.txns.filter(t => 
           monthKeyFrom(t.date) === month && 
-          t.bucketId === bucket.id && 
-          !t.deleted &&
+          isBudgetTxn(t) &&
           t.amount < 0
         );
-        data[bucket.name][month] = Math.abs(monthTxns.reduce((sum, t) => sum + t.amount, 0));
+        data[bucket.name][month] = Math.abs(monthTxns.reduce((sum, t) => sum + amountInBucket(t, bucket.id), 0));
       });
     });
     
@@ -917,7 +1830,7 @@ function AnalyticsDashboard({ state, activeMonthKey, onClose }: {
   const currentMonthPercentages = useMemo(() => {
     const monthTxns = state.txns.filter(t => 
       monthKeyFrom(t.date) === activeMonthKey && 
-      !t.deleted &&
+      isBudgetTxn(t) &&
       t.amount < 0
     );
     
@@ -928,8 +1841,7 @@ function AnalyticsDashboard({ state, activeMonthKey, onClose }: {
     state.buckets.forEach(bucket => {
       if (bucket.isIncome) return;
       
-      const bucketTxns = monthTxns.filter(t => t.bucketId === bucket.id);
-      const spent = Math.abs(bucketTxns.reduce((sum, t) => sum + t.amount, 0));
+      const spent = Math.abs(monthTxns.reduce((sum, t) => sum + amountInBucket(t, bucket.id), 0));
       const percentage = totalSpent > 0 ? (spent / totalSpent) * 100 : 0;
       
       if (spent > 0) {
@@ -1125,8 +2037,8 @@ function WhiteboardModal({ monthTxns, buckets, activeMonthKey, totals, onClose }
               {buckets
                 .filter(b => !b.isIncome && b.allocations[activeMonthKey])
                 .map(bucket => {
-                  const bucketTxns = monthTxns.filter(t => t.bucketId === bucket.id && t.amount < 0);
-                  const spent = Math.abs(bucketTxns.reduce((sum, t) => sum + t.amount, 0));
+                  const bucketTxns = monthTxns.filter(t => t.amount < 0);
+                  const spent = Math.abs(bucketTxns.reduce((sum, t) => sum + amountInBucket(t, bucket.id), 0));
                   return (
                     <div key={bucket.id} className="flex justify-between text-sm rounded border px-3 py-2">
                       <span>{bucket.name}</span>
@@ -1241,31 +2153,1789 @@ function WhiteboardModal({ monthTxns, buckets, activeMonthKey, totals, onClose }
   );
 }
 
-/* ============== Cloud Modal ============== */
-function CloudModal({ initialHousehold, initialPassphrase, onSave, onClose }:{
-  initialHousehold: string; initialPassphrase: string;
-  onSave: (hh: string, pp: string) => void; onClose: () => void;
+/* ============== Import Wizard Modal ============== */
+type ImportDraft = { fileName: string; text: string; profile: BankProfile };
+
+const COLUMN_ROLES: { value: ColumnRole; label: string }[] = [
+  { value: "ignore", label: "Ignore" },
+  { value: "date", label: "Date" },
+  { value: "description", label: "Description" },
+  { value: "amount", label: "Amount" },
+  { value: "debit", label: "Debit (money out)" },
+  { value: "credit", label: "Credit (money in)" },
+];
+
+function ImportWizardModal({ draft, profiles, onContinue, onDeleteProfile, onCancel }: {
+  draft: ImportDraft;
+  profiles: BankProfile[];
+  onContinue: (draft: ImportDraft) => void;
+  onDeleteProfile: (id: ID) => void;
+  onCancel: () => void;
 }) {
-  const [hh, setHh] = useState(initialHousehold);
-  const [pp, setPp] = useState(initialPassphrase);
+  const [profile, setProfile] = useState<BankProfile>(draft.profile);
+  const table = useMemo(() => readCSV(draft.text, profile.delimiter), [draft.text, profile.delimiter]);
+  const width = Math.max(...table.rows.slice(0, 10).map((r) => r.length), profile.columns.length);
+  const columns = Array.from({ length: width }, (_, i) => profile.columns[i] ?? "ignore");
+  const preview = table.rows.slice(profile.hasHeader ? 1 : 0, (profile.hasHeader ? 1 : 0) + 5);
+  const header = profile.hasHeader ? table.rows[0] : null;
+  const usable = mappingIsUsable({ ...profile, columns });
+
+  const setRole = (i: number, role: ColumnRole) => setProfile((p) => ({ ...p, columns: columns.map((r, j) => (j === i ? role : r)) }));
+  const pickProfile = (id: string) => {
+    const existing = profiles.find((p) => p.id === id);
+    setProfile(existing ? { ...existing } : { id: "", name: "", ...guessMapping(readCSV(draft.text)) });
+  };
+  const submit = () => {
+    const headerSig = profile.hasHeader ? normalizeHeader(table.rows[0]) : [];
+    onContinue({ ...draft, profile: { ...profile, columns, header: headerSig } });
+  };
+
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
-      <div className="w-full max-w-md rounded-2xl border bg-white p-6 shadow-xl">
-        <div className="mb-3 text-lg font-semibold">Cloud: Connect</div>
-        <div className="space-y-3">
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-4xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-6 flex items-center justify-between">
           <div>
-            <label className="block text-sm font-medium">Household Code</label>
-            <input className="mt-1 w-full rounded-md border px-3 py-2" placeholder="e.g. trowbridge-home" value={hh} onChange={(e) => setHh(e.target.value)} />
+            <h2 className="text-2xl font-bold">Map CSV Columns</h2>
+            <div className="text-sm text-gray-500">{draft.fileName} · {table.rows.length} rows</div>
+          </div>
+          <button className="rounded-md border px-3 py-2" onClick={onCancel}>Cancel</button>
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="mb-4 flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Start from bank profile:</span>
+            <select className="rounded-md border px-2 py-1" value={profile.id} onChange={(e) => pickProfile(e.target.value)}>
+              <option value="">New mapping</option>
+              {profiles.map((p) => (<option key={p.id} value={p.id}>{p.name}</option>))}
+            </select>
+            {profile.id && (
+              <button className="text-[12px] text-red-600 hover:underline" onClick={() => { onDeleteProfile(profile.id); pickProfile(""); }}>Delete profile</button>
+            )}
           </div>
+        )}
+
+        {/* Preview with a role picker above every column */}
+        <div className="mb-4 overflow-x-auto rounded-lg border">
+          <table className="w-full text-left text-[12px]">
+            <thead>
+              <tr className="bg-gray-50">
+                {columns.map((role, i) => (
+                  <th key={i} className="p-2">
+                    <select className={`w-full rounded-md border px-1 py-1 ${role === "ignore" ? "text-gray-400" : "font-semibold"}`} value={role} onChange={(e) => setRole(i, e.target.value as ColumnRole)}>
+                      {COLUMN_ROLES.map((r) => (<option key={r.value} value={r.value}>{r.label}</option>))}
+                    </select>
+                    {header && <div className="mt-1 truncate font-medium text-gray-500">{header[i]}</div>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map((row, r) => (
+                <tr key={r} className="border-t">
+                  {columns.map((role, i) => (
+                    <td key={i} className={`whitespace-nowrap p-2 ${role === "ignore" ? "text-gray-400" : ""}`}>{row[i]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid gap-3 rounded-lg border p-4 sm:grid-cols-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={profile.hasHeader} onChange={(e) => setProfile({ ...profile, hasHeader: e.target.checked })} />
+            First row is a header
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Date format</span>
+            <select className="rounded-md border px-2 py-1" value={profile.dateFormat} onChange={(e) => setProfile({ ...profile, dateFormat: e.target.value as DateFormat })}>
+              <option value="auto">Auto-detect</option>
+              <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+              <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Delimiter</span>
+            <select className="rounded-md border px-2 py-1" value={profile.delimiter ?? table.delimiter} onChange={(e) => setProfile({ ...profile, delimiter: e.target.value as CSVDelimiter })}>
+              <option value=",">Comma (,)</option>
+              <option value=";">Semicolon (;)</option>
+              <option value={"\t"}>Tab</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Decimal mark</span>
+            <select className="rounded-md border px-2 py-1" value={profile.decimal ?? "auto"} onChange={(e) => setProfile({ ...profile, decimal: e.target.value as DecimalSeparator })}>
+              <option value="auto">Auto-detect</option>
+              <option value=".">1,234.56</option>
+              <option value=",">1.234,56</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Amount column</span>
+            <select className="rounded-md border px-2 py-1" value={profile.sign} onChange={(e) => setProfile({ ...profile, sign: e.target.value as SignConvention })}>
+              <option value="negative-expense">Negative = money out</option>
+              <option value="positive-expense">Positive = money out</option>
+            </select>
+          </label>
+          <input
+            className="rounded-md border px-3 py-2 text-sm"
+            placeholder="Save as bank profile (e.g. Credit Union Visa)"
+            value={profile.name}
+            onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+          />
+        </div>
+
+        <div className="mt-4 flex items-center justify-end gap-2">
+          {!usable && <span className="mr-auto text-sm text-red-600">Map a date, a description, and an amount (or debit/credit) column.</span>}
+          <button className="rounded-md border px-3 py-2" onClick={onCancel}>Cancel</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!usable} onClick={submit}>Continue</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Import Review Modal ============== */
+function ImportReviewModal({ fileName, classify, errors, buckets, accounts, initialAccountId, onCommit, onBack, onCancel }: {
+  fileName: string;
+  // FITIDs are only unique per bank account, so rows are matched within the chosen one
+  classify: (accountId?: ID) => ImportRow[];
+  errors: ImportIssue[];
+  buckets: Bucket[];
+  accounts: Account[];
+  initialAccountId?: ID;
+  onCommit: (rows: ImportRow[], accountId: ID) => void;
+  onBack?: () => void;
+  onCancel: () => void;
+}) {
+  const [accountId, setAccountId] = useState<ID | undefined>(initialAccountId ?? accounts[0]?.id);
+  const [rows, setRows] = useState(() => classify(accountId));
+  const pickAccount = (id: ID) => { setAccountId(id); setRows(classify(id)); };
+  const groups: { status: ImportRow["status"]; title: string; hint: string }[] = [
+    { status: "new", title: "New", hint: "Not seen before — will be imported." },
+    { status: "conflict", title: "Possible conflicts", hint: "Same date and amount as an existing transaction, but a different description. Tick to import anyway." },
+    { status: "duplicate", title: "Duplicates", hint: "Already imported from an earlier statement — skipped unless ticked." },
+  ];
+  const includedCount = rows.filter((r) => r.include).length;
+  const bucketName = (id: ID | null) => (id ? buckets.find((b) => b.id === id)?.name : null) ?? "Unassigned";
+  const toggle = (idx: number) => setRows((rs) => rs.map((r, i) => (i === idx ? { ...r, include: !r.include } : r)));
+  const setGroup = (status: ImportRow["status"], include: boolean) =>
+    setRows((rs) => rs.map((r) => (r.status === status ? { ...r, include } : r)));
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-4xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-6 flex items-center justify-between">
           <div>
-            <label className="block text-sm font-medium">Passphrase</label>
-            <input className="mt-1 w-full rounded-md border px-3 py-2" placeholder="Something only you two know" type="password" value={pp} onChange={(e) => setPp(e.target.value)} />
-            <div className="mt-1 text-xs text-gray-500">Used only in your browser to encrypt/decrypt.</div>
+            <h2 className="text-2xl font-bold">Review Import</h2>
+            <div className="text-sm text-gray-500">{fileName} · {rows.length} rows{errors.length > 0 ? ` · ${errors.length} could not be read` : ""}</div>
+          </div>
+          <button className="rounded-md border px-3 py-2" onClick={onCancel}>Cancel</button>
+        </div>
+
+        <div className="mb-6 flex items-center gap-2 text-sm">
+          <span className="text-gray-500">Import into account:</span>
+          {accountId ? (
+            <select className="rounded-md border px-2 py-1" value={accountId} onChange={(e) => pickAccount(e.target.value)}>
+              {accounts.map((a) => (<option key={a.id} value={a.id}>{a.name}</option>))}
+            </select>
+          ) : (
+            <span className="text-red-600">No open accounts — reopen or add an account under Accounts first.</span>
+          )}
+        </div>
+
+        {groups.map((g) => {
+          const items = rows.map((r, idx) => ({ r, idx })).filter(({ r }) => r.status === g.status);
+          if (items.length === 0) return null;
+          return (
+            <div key={g.status} className="mb-6">
+              <div className="mb-2 flex items-center justify-between">
+                <h3 className="font-semibold">{g.title} ({items.length})</h3>
+                <div className="flex gap-2 text-[12px]">
+                  <button className="text-indigo-600 hover:underline" onClick={() => setGroup(g.status, true)}>Select all</button>
+                  <button className="text-indigo-600 hover:underline" onClick={() => setGroup(g.status, false)}>Select none</button>
+                </div>
+              </div>
+              <div className="mb-2 text-[12px] text-gray-500">{g.hint}</div>
+              <div className="space-y-1">
+                {items.map(({ r, idx }) => (
+                  <label key={idx} className={`flex cursor-pointer items-center gap-3 rounded-lg border px-3 py-2 text-sm ${r.include ? "bg-white" : "bg-gray-50 text-gray-500"}`}>
+                    <input type="checkbox" checked={r.include} onChange={() => toggle(idx)} />
+                    <div className="w-28 whitespace-nowrap text-[12px] text-blue-700">{fmtPretty(r.txn.date)}</div>
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate">{r.txn.description}</div>
+                      {r.match && r.status === "conflict" && (
+                        <div className="truncate text-[11px] text-gray-400">existing: {r.match.description}</div>
+                      )}
+                    </div>
+                    <div className="text-[12px] text-gray-500">{bucketName(r.txn.bucketId)}</div>
+                    <div className={`w-24 whitespace-nowrap text-right font-semibold ${r.txn.amount < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(r.txn.amount)}</div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {errors.length > 0 && (
+          <div className="mb-6">
+            <h3 className="mb-2 font-semibold text-red-600">Rows that could not be read ({errors.length})</h3>
+            <div className="mb-2 text-[12px] text-gray-500">These rows will not be imported. Check the column mapping, date format and decimal mark.</div>
+            <div className="space-y-1">
+              {errors.map((err, i) => (
+                <div key={i} className="flex items-center gap-3 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm">
+                  <div className="w-16 whitespace-nowrap text-[12px] text-gray-500">Line {err.line}</div>
+                  <div className="whitespace-nowrap font-medium text-red-600">{err.message}</div>
+                  {err.raw && <div className="min-w-0 flex-1 truncate font-mono text-[11px] text-gray-500">{err.raw}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 border-t pt-4">
+          {onBack && <button className="mr-auto rounded-md border px-3 py-2" onClick={onBack}>← Edit column mapping</button>}
+          <button className="rounded-md border px-3 py-2" onClick={onCancel}>Cancel</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={includedCount === 0 || !accountId} onClick={() => accountId && onCommit(rows, accountId)}>
+            Import {includedCount} transaction{includedCount === 1 ? "" : "s"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Split Editor Modal ============== */
+function SplitEditorModal({ txn, buckets, onSave, onClose }: {
+  txn: Txn;
+  buckets: Bucket[];
+  onSave: (splits: TxnSplit[] | null) => void;
+  onClose: () => void;
+}) {
+  // Edit magnitudes; the parent's sign is applied on save
+  const sign = txn.amount < 0 ? -1 : 1;
+  const [parts, setParts] = useState<{ id: ID; bucketId: ID | null; amount: string }[]>(() =>
+    isSplit(txn)
+      ? txn.splits!.map((p) => ({ id: p.id, bucketId: p.bucketId, amount: String(Math.abs(p.amount)) }))
+      : [
+          { id: uid(), bucketId: txn.bucketId, amount: String(Math.abs(txn.amount)) },
+          { id: uid(), bucketId: null, amount: "" },
+        ]
+  );
+  const splits: TxnSplit[] = parts.map((p) => ({ id: p.id, bucketId: p.bucketId, amount: sign * Number(p.amount || 0) }));
+  const remaining = splitRemainder(txn.amount, splits) * sign;
+  const valid = splitsAreValid(txn, splits);
+  const update = (id: ID, patch: Partial<{ bucketId: ID | null; amount: string }>) =>
+    setParts((ps) => ps.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-lg rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-1 text-lg font-semibold">Split Transaction</div>
+        <div className="mb-4 text-sm text-gray-500">{extractTitle(txn.description)} · {fmtPretty(txn.date)} · {fmtCurrency(txn.amount)}</div>
+        <div className="space-y-2">
+          {parts.map((p) => (
+            <div key={p.id} className="flex items-center gap-2">
+              <select className="flex-1 rounded-md border px-2 py-2 text-sm" value={p.bucketId ?? ""} onChange={(e) => update(p.id, { bucketId: e.target.value || null })}>
+                <option value="">Choose bucket…</option>
+                {buckets.map((b) => (<option key={b.id} value={b.id}>{b.name}</option>))}
+              </select>
+              <input className="w-28 rounded-md border px-2 py-2 text-right text-sm" type="number" min="0" step="0.01" value={p.amount} onChange={(e) => update(p.id, { amount: e.target.value })} />
+              <button className="rounded-md border px-2 py-2 text-[12px] disabled:opacity-50" disabled={parts.length <= 2} onClick={() => setParts((ps) => ps.filter((x) => x.id !== p.id))}>✕</button>
+            </div>
+          ))}
+        </div>
+        <div className="mt-3 flex items-center justify-between">
+          <button
+            className="text-sm text-indigo-600 hover:underline"
+            onClick={() => setParts((ps) => [...ps, { id: uid(), bucketId: null, amount: remaining > 0 ? String(remaining) : "" }])}
+          >
+            + Add split
+          </button>
+          <div className={`text-sm font-semibold ${remaining === 0 ? "text-emerald-700" : "text-red-600"}`}>
+            {remaining === 0 ? "Fully allocated" : remaining > 0 ? `${fmtCurrency(remaining)} left to allocate` : `${fmtCurrency(-remaining)} over`}
+          </div>
+        </div>
+        <div className="mt-6 flex justify-end gap-2">
+          {isSplit(txn) && <button className="mr-auto rounded-md border px-3 py-2 text-red-600" onClick={() => onSave(null)}>Remove split</button>}
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Cancel</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!valid} onClick={() => onSave(splits)}>Save split</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Rules Modal ============== */
+function RulesModal({ rules, buckets, txns, activeMonthKey, onChange, onRerun, onClose }: {
+  rules: Rule[];
+  buckets: Bucket[];
+  txns: Txn[];
+  activeMonthKey: string;
+  onChange: (rules: Rule[]) => void;
+  onRerun: () => number;
+  onClose: () => void;
+}) {
+  const emptyDraft: Rule = { id: "", name: "", bucketId: "", enabled: true };
+  const [draft, setDraft] = useState<Rule>(emptyDraft);
+  const [rerunResult, setRerunResult] = useState<string>("");
+  const stats = useMemo(() => ruleStats(rules, txns), [rules, txns]);
+  const bucketName = (id: ID) => buckets.find((b) => b.id === id)?.name ?? "(deleted bucket)";
+  const numOrUndef = (v: string) => (v.trim() === "" ? undefined : Number(v));
+
+  const describe = (r: Rule) => {
+    const parts: string[] = [];
+    if (r.merchant) parts.push(`merchant ~ "${r.merchant}"`);
+    if (r.pattern) parts.push(`description /${r.pattern}/`);
+    if (r.minAmount !== undefined || r.maxAmount !== undefined) {
+      parts.push(`amount ${r.minAmount !== undefined ? fmtCurrency(r.minAmount) : "…"}–${r.maxAmount !== undefined ? fmtCurrency(r.maxAmount) : "…"}`);
+    }
+    if (r.sign) parts.push(r.sign === "expense" ? "expenses only" : "income only");
+    return parts.join(", ");
+  };
+
+  const saveDraft = () => {
+    const rule: Rule = { ...draft, name: draft.name.trim() || draft.merchant?.trim() || draft.pattern?.trim() || "Rule" };
+    if (!isRuleValid(rule)) return;
+    if (rule.id) onChange(rules.map((r) => (r.id === rule.id ? rule : r)));
+    else onChange([...rules, { ...rule, id: uid() }]);
+    setDraft(emptyDraft);
+  };
+
+  const move = (idx: number, delta: number) => {
+    const next = [...rules];
+    const [r] = next.splice(idx, 1);
+    next.splice(Math.max(0, Math.min(next.length, idx + delta)), 0, r);
+    onChange(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-4xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold">Categorization Rules</h2>
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="mb-4 flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+          <div>Rules run on every CSV import, top to bottom. The first matching rule assigns the bucket; manual assignments are never overwritten.</div>
+          <div className="flex items-center gap-2">
+            {rerunResult && <span className="whitespace-nowrap text-[12px]">{rerunResult}</span>}
+            <button
+              className="whitespace-nowrap rounded-md bg-indigo-600 px-3 py-2 text-white"
+              onClick={() => { const n = onRerun(); setRerunResult(`${n} assigned`); }}
+            >
+              Re-run rules on {activeMonthKey}
+            </button>
+          </div>
+        </div>
+
+        {/* Rule list */}
+        <div className="mb-6 space-y-2">
+          {rules.length === 0 ? (
+            <div className="text-sm text-gray-400">No rules yet. Add one below.</div>
+          ) : (
+            rules.map((r, idx) => {
+              const st = stats[r.id] || { count: 0, lastDate: null };
+              return (
+                <div key={r.id} className={`flex items-center justify-between gap-3 rounded-xl border px-4 py-3 text-sm ${r.enabled ? "bg-white/80" : "bg-gray-50 opacity-60"}`}>
+                  <input type="checkbox" checked={r.enabled} onChange={(e) => onChange(rules.map((x) => (x.id === r.id ? { ...x, enabled: e.target.checked } : x)))} title="Enabled" />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium truncate">{r.name} → {bucketName(r.bucketId)}</div>
+                    <div className="text-[12px] text-gray-500 truncate">{describe(r)}</div>
+                  </div>
+                  <div className={`whitespace-nowrap text-right text-[12px] ${st.count === 0 ? "text-red-600" : "text-gray-600"}`}>
+                    <div>{st.count} match{st.count === 1 ? "" : "es"}</div>
+                    <div className="text-gray-400">{st.lastDate ? `last ${fmtPretty(st.lastDate)}` : "never matched"}</div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button className="rounded-md border px-2 py-1 text-[12px]" disabled={idx === 0} onClick={() => move(idx, -1)}>↑</button>
+                    <button className="rounded-md border px-2 py-1 text-[12px]" disabled={idx === rules.length - 1} onClick={() => move(idx, 1)}>↓</button>
+                    <button className="rounded-md border px-2 py-1 text-[12px]" onClick={() => setDraft(r)}>Edit</button>
+                    <button className="rounded-md border px-2 py-1 text-[12px] transition-colors hover:border-red-500 hover:text-red-600 hover:bg-red-50" onClick={() => onChange(rules.filter((x) => x.id !== r.id))}>Delete</button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* Rule editor */}
+        <h3 className="mb-3 font-semibold">{draft.id ? "Edit rule" : "New rule"}</h3>
+        <div className="grid gap-3 rounded-lg border p-4 sm:grid-cols-2">
+          <input className="rounded-md border px-3 py-2" placeholder="Rule name (optional)" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          <select className="rounded-md border px-3 py-2" value={draft.bucketId} onChange={(e) => setDraft({ ...draft, bucketId: e.target.value })}>
+            <option value="">Assign to bucket…</option>
+            {buckets.map((b) => (<option key={b.id} value={b.id}>{b.name}</option>))}
+          </select>
+          <input className="rounded-md border px-3 py-2" placeholder="Merchant contains (e.g. Costco)" value={draft.merchant ?? ""} onChange={(e) => setDraft({ ...draft, merchant: e.target.value || undefined })} />
+          <input className="rounded-md border px-3 py-2 font-mono" placeholder="Description regex (e.g. ^SHELL)" value={draft.pattern ?? ""} onChange={(e) => setDraft({ ...draft, pattern: e.target.value || undefined })} />
+          <div className="flex gap-2">
+            <input className="w-full rounded-md border px-3 py-2" type="number" placeholder="Min amount" value={draft.minAmount ?? ""} onChange={(e) => setDraft({ ...draft, minAmount: numOrUndef(e.target.value) })} />
+            <input className="w-full rounded-md border px-3 py-2" type="number" placeholder="Max amount" value={draft.maxAmount ?? ""} onChange={(e) => setDraft({ ...draft, maxAmount: numOrUndef(e.target.value) })} />
+          </div>
+          <select className="rounded-md border px-3 py-2" value={draft.sign ?? ""} onChange={(e) => setDraft({ ...draft, sign: (e.target.value || undefined) as Rule["sign"] })}>
+            <option value="">Expenses and income</option>
+            <option value="expense">Expenses only</option>
+            <option value="income">Income only</option>
+          </select>
+        </div>
+        <div className="mt-3 flex justify-end gap-2">
+          {draft.id && <button className="rounded-md border px-3 py-2" onClick={() => setDraft(emptyDraft)}>Cancel</button>}
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!isRuleValid(draft)} onClick={saveDraft}>
+            {draft.id ? "Save rule" : "Add rule"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Bill Calendar Modal ============== */
+function BillCalendarModal({ month, items, txns, buckets, onManage, onFindSubscriptions, onClose }: {
+  month: string;
+  items: RecurringItem[];
+  txns: Txn[];
+  buckets: Bucket[];
+  onManage: () => void;
+  onFindSubscriptions: () => void;
+  onClose: () => void;
+}) {
+  const [y, m] = month.split("-").map(Number);
+  const daysInMonth = new Date(y, m, 0).getDate();
+  const leadingBlanks = new Date(y, m - 1, 1).getDay();
+  const pending = useMemo(() => pendingForMonth(items, txns, month), [items, txns, month]);
+  const paid = useMemo(() => txns.filter((t) => !t.deleted && t.recurringId && t.recurringDate?.startsWith(month)), [txns, month]);
+  const itemName = (id?: ID) => items.find((i) => i.id === id)?.name ?? "Recurring";
+  const bucketName = (id: ID | null) => (id ? buckets.find((b) => b.id === id)?.name : undefined);
+  const todayISO = new Date().toISOString().slice(0, 10);
+
+  const byDay: Record<number, { key: string; label: string; amount: number; paid: boolean; late: boolean; bucket?: string }[]> = {};
+  const add = (date: string, entry: (typeof byDay)[number][number]) => {
+    const d = Number(date.slice(8, 10));
+    (byDay[d] ||= []).push(entry);
+  };
+  pending.forEach((p) => add(p.date, { key: `${p.item.id}|${p.date}`, label: p.item.name, amount: p.amount, paid: false, late: p.date < todayISO, bucket: bucketName(p.bucketId) }));
+  paid.forEach((t) => add(t.recurringDate!, { key: t.id, label: itemName(t.recurringId), amount: t.amount, paid: true, late: false }));
+
+  const pendingTotal = pending.reduce((s, p) => s + p.amount, 0);
+  const paidTotal = paid.reduce((s, t) => s + t.amount, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-5xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold">Bills · {new Date(y, m - 1, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" })}</h2>
+          <div className="flex gap-2">
+            <button className="rounded-md border px-3 py-2" onClick={onFindSubscriptions}>Find subscriptions</button>
+            <button className="rounded-md border px-3 py-2" onClick={onManage}>Manage recurring</button>
+            <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
           </div>
-          <div className="flex justify-end gap-2 pt-2">
-            <button className="rounded-md border px-3 py-2" onClick={onClose}>Cancel</button>
-            <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!hh.trim() || !pp.trim()} onClick={() => onSave(hh, pp)}>Save & Connect</button>
+        </div>
+        <div className="mb-4 flex gap-6 text-sm text-gray-600">
+          <div>Pending: <span className="font-semibold text-amber-600">{fmtCurrency(pendingTotal)}</span> ({pending.length})</div>
+          <div>Paid: <span className="font-semibold text-emerald-700">{fmtCurrency(paidTotal)}</span> ({paid.length})</div>
+        </div>
+        {items.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-6 text-center text-sm text-gray-400">No recurring items yet. Use “Manage recurring” to add rent, utilities and subscriptions.</div>
+        ) : (
+          <div className="grid grid-cols-7 gap-1 text-[11px]">
+            {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((d) => (
+              <div key={d} className="pb-1 text-center font-semibold text-gray-400">{d}</div>
+            ))}
+            {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+            {Array.from({ length: daysInMonth }, (_, i) => i + 1).map((d) => (
+              <div key={d} className={`min-h-[84px] rounded-lg border p-1 ${`${month}-${String(d).padStart(2, "0")}` === todayISO ? "border-indigo-400" : ""}`}>
+                <div className="mb-1 text-gray-400">{d}</div>
+                {(byDay[d] || []).map((e) => (
+                  <div
+                    key={e.key}
+                    className={`mb-1 truncate rounded px-1 py-0.5 ${e.paid ? "bg-emerald-50 text-emerald-700 line-through" : e.late ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-700"}`}
+                    title={`${e.label} · ${fmtCurrency(e.amount)}${e.bucket ? ` · ${e.bucket}` : ""}${e.paid ? " · paid" : e.late ? " · not seen yet" : ""}`}
+                  >
+                    {e.label} {fmtCurrency(Math.abs(e.amount))}
+                  </div>
+                ))}
+              </div>
+            ))}
           </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* ============== Subscriptions Modal ============== */
+function SubscriptionsModal({ txns, dismissed, buckets, onTrack, onDismiss, onClose }: {
+  txns: Txn[];
+  dismissed: string[];
+  buckets: Bucket[];
+  onTrack: (sub: DetectedSubscription) => void;
+  onDismiss: (key: string) => void;
+  onClose: () => void;
+}) {
+  const subs = useMemo(() => detectSubscriptions(txns, new Date().toISOString().slice(0, 10), dismissed), [txns, dismissed]);
+  const total = subs.reduce((s, x) => s + x.annualCost, 0);
+  const bucketName = (id: ID | null) => (id ? buckets.find((b) => b.id === id)?.name : undefined);
+  const cadenceLabel: Record<Cadence, string> = { weekly: "Weekly", monthly: "Monthly", yearly: "Yearly" };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-3xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-2 flex items-center justify-between">
+          <h2 className="text-2xl font-bold">Detected Subscriptions</h2>
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
+        </div>
+        <div className="mb-6 text-sm text-gray-500">
+          Repeating charges from the same merchant that aren’t tracked as recurring bills yet
+          {subs.length > 0 && <> · <span className="font-semibold text-gray-700">{fmtCurrency(total)}/yr</span> total</>}
+        </div>
+        <div className="space-y-2">
+          {subs.length === 0 ? (
+            <div className="text-sm text-gray-400">Nothing found. Import a few months of statements to detect repeating charges.</div>
+          ) : (
+            subs.map((sub) => (
+              <div key={sub.key} className="flex items-center justify-between gap-3 rounded-xl border bg-white/80 px-4 py-3 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">{sub.name}</span>
+                    {sub.priceIncrease && (
+                      <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-semibold text-amber-700" title={`${fmtCurrency(sub.priceIncrease.from)} → ${fmtCurrency(sub.priceIncrease.to)}`}>
+                        Price up
+                      </span>
+                    )}
+                    {sub.missed && <span className="rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-semibold text-red-700">Missed charge</span>}
+                  </div>
+                  <div className="truncate text-[12px] text-gray-500">
+                    {cadenceLabel[sub.cadence]} · {sub.charges} charges since {fmtPretty(sub.firstDate)} · next {fmtPretty(sub.nextDate)}
+                    {bucketName(sub.bucketId) ? ` · ${bucketName(sub.bucketId)}` : ""}
+                  </div>
+                </div>
+                <div className="whitespace-nowrap text-right">
+                  <div className="font-semibold text-gray-700">{fmtCurrency(Math.abs(sub.amount))}</div>
+                  <div className="text-[11px] text-gray-400">{fmtCurrency(sub.annualCost)}/yr</div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button className="rounded-md bg-indigo-600 px-2 py-1 text-[12px] text-white" onClick={() => onTrack(sub)}>Track as bill</button>
+                  <button className="rounded-md border px-2 py-1 text-[12px]" onClick={() => onDismiss(sub.key)}>Dismiss</button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Recurring Modal ============== */
+function RecurringModal({ items, buckets, onChange, onRematch, onClose }: {
+  items: RecurringItem[];
+  buckets: Bucket[];
+  onChange: (items: RecurringItem[]) => void;
+  onRematch: () => number;
+  onClose: () => void;
+}) {
+  const emptyDraft: RecurringItem = {
+    id: "", name: "", amount: 0, bucketId: null, cadence: "monthly", interval: 1,
+    startDate: new Date().toISOString().slice(0, 10), enabled: true,
+  };
+  const [draft, setDraft] = useState<RecurringItem>(emptyDraft);
+  const [rematchResult, setRematchResult] = useState("");
+  const bucketName = (id: ID | null) => (id ? buckets.find((b) => b.id === id)?.name ?? "(deleted bucket)" : "Unassigned");
+  const valid = !!draft.name.trim() && draft.amount !== 0 && /^\d{4}-\d{2}-\d{2}$/.test(draft.startDate) && draft.interval >= 1;
+
+  const saveDraft = () => {
+    if (!valid) return;
+    const item: RecurringItem = { ...draft, name: draft.name.trim(), matchText: draft.matchText?.trim() || undefined };
+    if (item.id) onChange(items.map((i) => (i.id === item.id ? item : i)));
+    else onChange([...items, { ...item, id: uid() }]);
+    setDraft(emptyDraft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-3xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold">Recurring Items</h2>
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="mb-4 flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+          <div>Imported transactions within a few days of an expected date, with a similar amount and matching description, are linked automatically.</div>
+          <div className="flex items-center gap-2">
+            {rematchResult && <span className="whitespace-nowrap text-[12px]">{rematchResult}</span>}
+            <button className="whitespace-nowrap rounded-md bg-indigo-600 px-3 py-2 text-white" onClick={() => { const n = onRematch(); setRematchResult(`${n} matched`); }}>
+              Match existing
+            </button>
+          </div>
+        </div>
+
+        <div className="mb-6 space-y-2">
+          {items.length === 0 ? (
+            <div className="text-sm text-gray-400">No recurring items yet. Add one below.</div>
+          ) : (
+            items.map((i) => (
+              <div key={i.id} className={`flex items-center justify-between gap-3 rounded-xl border px-4 py-3 text-sm ${i.enabled ? "bg-white/80" : "bg-gray-50 opacity-60"}`}>
+                <input type="checkbox" checked={i.enabled} onChange={(e) => onChange(items.map((x) => (x.id === i.id ? { ...x, enabled: e.target.checked } : x)))} title="Enabled" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{i.name} → {bucketName(i.bucketId)}</div>
+                  <div className="truncate text-[12px] text-gray-500">{describeCadence(i)} · from {fmtPretty(i.startDate)}{i.endDate ? ` until ${fmtPretty(i.endDate)}` : ""}</div>
+                </div>
+                <div className={`whitespace-nowrap font-semibold ${i.amount < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(i.amount)}</div>
+                <div className="flex items-center gap-1">
+                  <button className="rounded-md border px-2 py-1 text-[12px]" onClick={() => setDraft(i)}>Edit</button>
+                  <button className="rounded-md border px-2 py-1 text-[12px] transition-colors hover:border-red-500 hover:text-red-600 hover:bg-red-50" onClick={() => onChange(items.filter((x) => x.id !== i.id))}>Delete</button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <h3 className="mb-3 font-semibold">{draft.id ? "Edit recurring item" : "New recurring item"}</h3>
+        <div className="grid gap-3 rounded-lg border p-4 sm:grid-cols-2">
+          <input className="rounded-md border px-3 py-2" placeholder="Name (e.g. Rent)" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          <input className="rounded-md border px-3 py-2" type="number" placeholder="Amount (negative for bills)" value={draft.amount || ""} onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value || 0) })} />
+          <select className="rounded-md border px-3 py-2" value={draft.bucketId ?? ""} onChange={(e) => setDraft({ ...draft, bucketId: e.target.value || null })}>
+            <option value="">No bucket</option>
+            {buckets.map((b) => (<option key={b.id} value={b.id}>{b.name}</option>))}
+          </select>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-500">Every</span>
+            <input className="w-16 rounded-md border px-2 py-2" type="number" min="1" value={draft.interval} onChange={(e) => setDraft({ ...draft, interval: Math.max(1, Number(e.target.value || 1)) })} />
+            <select className="flex-1 rounded-md border px-3 py-2" value={draft.cadence} onChange={(e) => setDraft({ ...draft, cadence: e.target.value as Cadence })}>
+              <option value="weekly">week(s)</option>
+              <option value="monthly">month(s)</option>
+              <option value="yearly">year(s)</option>
+            </select>
+          </div>
+          <label className="text-sm text-gray-500">
+            First date
+            <input className="mt-1 w-full rounded-md border px-3 py-2 text-gray-900" type="date" value={draft.startDate} onChange={(e) => setDraft({ ...draft, startDate: e.target.value })} />
+          </label>
+          <label className="text-sm text-gray-500">
+            Last date (optional)
+            <input className="mt-1 w-full rounded-md border px-3 py-2 text-gray-900" type="date" value={draft.endDate ?? ""} onChange={(e) => setDraft({ ...draft, endDate: e.target.value || undefined })} />
+          </label>
+          <input className="rounded-md border px-3 py-2 sm:col-span-2" placeholder="Bank description contains (defaults to the name)" value={draft.matchText ?? ""} onChange={(e) => setDraft({ ...draft, matchText: e.target.value })} />
+        </div>
+        <div className="mt-3 flex justify-end gap-2">
+          {draft.id && <button className="rounded-md border px-3 py-2" onClick={() => setDraft(emptyDraft)}>Cancel</button>}
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!valid} onClick={saveDraft}>
+            {draft.id ? "Save item" : "Add item"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Accounts Modal ============== */
+function AccountsModal({ accounts, txns, onChange, onToggleCleared, onFinishReconcile, onLinkTransfers, onClose }: {
+  accounts: Account[];
+  txns: Txn[];
+  onChange: (accounts: Account[]) => void;
+  onToggleCleared: (txnId: ID, cleared: boolean) => void;
+  onFinishReconcile: (accountId: ID, date: string, balance: number) => void;
+  onLinkTransfers: () => number;
+  onClose: () => void;
+}) {
+  const [transferResult, setTransferResult] = useState("");
+  const emptyDraft: Account = { id: "", name: "", kind: "checking", openingBalance: 0 };
+  const [draft, setDraft] = useState<Account>(emptyDraft);
+  const [view, setView] = useState<{ mode: "register" | "reconcile"; accountId: ID } | null>(null);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().slice(0, 10));
+  const [statementBalance, setStatementBalance] = useState("");
+  const kindLabel: Record<AccountKind, string> = { checking: "Checking", savings: "Savings", credit: "Credit card", cash: "Cash" };
+  const txnCount = (id: ID) => txns.filter((t) => t.accountId === id && !t.deleted).length;
+
+  const saveDraft = () => {
+    const account = { ...draft, name: draft.name.trim() };
+    if (!account.name) return;
+    if (account.id) onChange(accounts.map((a) => (a.id === account.id ? account : a)));
+    else onChange([...accounts, { ...account, id: uid() }]);
+    setDraft(emptyDraft);
+  };
+
+  const active = view ? accounts.find((a) => a.id === view.accountId) : undefined;
+
+  if (view && active) {
+    const register = runningBalances(active, txns);
+    const target = Number(statementBalance || 0);
+    const open = register.filter(({ txn }) => !txn.reconciled && txn.date <= statementDate);
+    const cleared = clearedBalance(active, txns.filter((t) => t.date <= statementDate));
+    const diff = reconcileDifference(target, active, txns.filter((t) => t.date <= statementDate));
+    return (
+      <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+        <div className="mx-auto max-w-3xl rounded-2xl border bg-white p-6 shadow-xl">
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold">{view.mode === "reconcile" ? "Reconcile" : "Register"} · {active.name}</h2>
+              <div className="text-sm text-gray-500">
+                Balance {fmtCurrency(accountBalance(active, txns))}
+                {active.lastReconciled && ` · last reconciled ${fmtPretty(active.lastReconciled.date)} at ${fmtCurrency(active.lastReconciled.balance)}`}
+              </div>
+            </div>
+            <button className="rounded-md border px-3 py-2" onClick={() => setView(null)}>← Accounts</button>
+          </div>
+
+          {view.mode === "register" ? (
+            <div className="space-y-1">
+              <div className="flex justify-between px-3 text-[12px] text-gray-400">
+                <span>Opening balance</span><span>{fmtCurrency(active.openingBalance)}</span>
+              </div>
+              {register.length === 0 && <div className="text-sm text-gray-400">No transactions in this account yet.</div>}
+              {register.map(({ txn, balance }) => (
+                <div key={txn.id} className="flex items-center gap-3 rounded-lg border px-3 py-2 text-sm">
+                  <div className="w-28 whitespace-nowrap text-[12px] text-blue-700">{fmtPretty(txn.date)}</div>
+                  <div className="min-w-0 flex-1 truncate">{txn.description}</div>
+                  {txn.reconciled ? <span className="text-[11px] text-emerald-700" title="Reconciled">R</span> : txn.cleared ? <span className="text-[11px] text-gray-500" title="Cleared">C</span> : null}
+                  <div className={`w-24 whitespace-nowrap text-right font-semibold ${txn.amount < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(txn.amount)}</div>
+                  <div className="w-28 whitespace-nowrap text-right text-gray-500">{fmtCurrency(balance)}</div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="mb-4 grid gap-3 rounded-lg border p-4 sm:grid-cols-2">
+                <label className="text-sm text-gray-500">
+                  Statement ending date
+                  <input className="mt-1 w-full rounded-md border px-3 py-2 text-gray-900" type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} />
+                </label>
+                <label className="text-sm text-gray-500">
+                  Statement ending balance
+                  <input className="mt-1 w-full rounded-md border px-3 py-2 text-gray-900" type="number" step="0.01" value={statementBalance} onChange={(e) => setStatementBalance(e.target.value)} />
+                </label>
+              </div>
+              <div className="mb-4 flex justify-between rounded-lg bg-gray-50 px-4 py-3 text-sm">
+                <div>Cleared balance: <span className="font-semibold">{fmtCurrency(cleared)}</span></div>
+                <div className={diff === 0 ? "font-semibold text-emerald-700" : "font-semibold text-red-600"}>Difference: {fmtCurrency(diff)}</div>
+              </div>
+              <div className="mb-2 text-[12px] text-gray-500">Tick every transaction that appears on the statement.</div>
+              <div className="mb-6 space-y-1">
+                {open.length === 0 && <div className="text-sm text-gray-400">Nothing left to reconcile up to this date.</div>}
+                {open.map(({ txn }) => (
+                  <label key={txn.id} className={`flex cursor-pointer items-center gap-3 rounded-lg border px-3 py-2 text-sm ${txn.cleared ? "bg-white" : "bg-gray-50 text-gray-500"}`}>
+                    <input type="checkbox" checked={!!txn.cleared} onChange={(e) => onToggleCleared(txn.id, e.target.checked)} />
+                    <div className="w-28 whitespace-nowrap text-[12px] text-blue-700">{fmtPretty(txn.date)}</div>
+                    <div className="min-w-0 flex-1 truncate">{txn.description}</div>
+                    <div className={`w-24 whitespace-nowrap text-right font-semibold ${txn.amount < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(txn.amount)}</div>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2 border-t pt-4">
+                <button
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50"
+                  disabled={statementBalance.trim() === "" || diff !== 0}
+                  onClick={() => { onFinishReconcile(active.id, statementDate, target); setView(null); setStatementBalance(""); }}
+                >
+                  Finish reconciliation
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-3xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold">Accounts</h2>
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
+        </div>
+
+        {accounts.length > 1 && (
+          <div className="mb-4 flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+            <div>Opposite amounts between two accounts a few days apart are linked as transfers on import and never count as spending or income.</div>
+            <div className="flex items-center gap-2">
+              {transferResult && <span className="whitespace-nowrap text-[12px]">{transferResult}</span>}
+              <button className="whitespace-nowrap rounded-md bg-indigo-600 px-3 py-2 text-white" onClick={() => { const n = onLinkTransfers(); setTransferResult(`${n} linked`); }}>
+                Find transfers
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mb-6 space-y-2">
+          {accounts.map((a) => (
+            <div key={a.id} className={`flex items-center justify-between gap-3 rounded-xl border px-4 py-3 text-sm ${a.closed ? "bg-gray-50 opacity-60" : "bg-white/80"}`}>
+              <div className="min-w-0 flex-1">
+                <div className="truncate font-medium">{a.name}</div>
+                <div className="truncate text-[12px] text-gray-500">
+                  {kindLabel[a.kind]} · {txnCount(a.id)} transactions · cleared {fmtCurrency(clearedBalance(a, txns))}
+                  {a.closed ? " · closed" : ""}
+                </div>
+              </div>
+              <div className={`whitespace-nowrap font-semibold ${accountBalance(a, txns) < 0 ? "text-gray-600" : "text-emerald-700"}`}>{fmtCurrency(accountBalance(a, txns))}</div>
+              <div className="flex items-center gap-1">
+                <button className="rounded-md border px-2 py-1 text-[12px]" onClick={() => setView({ mode: "register", accountId: a.id })}>Register</button>
+                <button className="rounded-md border px-2 py-1 text-[12px]" onClick={() => setView({ mode: "reconcile", accountId: a.id })}>Reconcile</button>
+                <button className="rounded-md border px-2 py-1 text-[12px]" onClick={() => setDraft(a)}>Edit</button>
+                <button
+                  className="rounded-md border px-2 py-1 text-[12px] transition-colors hover:border-red-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-40"
+                  disabled={accounts.length <= 1 || txnCount(a.id) > 0}
+                  title={txnCount(a.id) > 0 ? "Accounts with transactions can be closed instead" : undefined}
+                  onClick={() => onChange(accounts.filter((x) => x.id !== a.id))}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <h3 className="mb-3 font-semibold">{draft.id ? "Edit account" : "New account"}</h3>
+        <div className="grid gap-3 rounded-lg border p-4 sm:grid-cols-3">
+          <input className="rounded-md border px-3 py-2" placeholder="Name (e.g. Visa)" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          <select className="rounded-md border px-3 py-2" value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as AccountKind })}>
+            {(Object.keys(kindLabel) as AccountKind[]).map((k) => (<option key={k} value={k}>{kindLabel[k]}</option>))}
+          </select>
+          <input className="rounded-md border px-3 py-2" type="number" step="0.01" placeholder="Opening balance" value={draft.openingBalance || ""} onChange={(e) => setDraft({ ...draft, openingBalance: Number(e.target.value || 0) })} title="Opening balance (negative for money owed)" />
+          {draft.id && (
+            <label className="flex items-center gap-2 text-sm sm:col-span-3">
+              <input type="checkbox" checked={!!draft.closed} onChange={(e) => setDraft({ ...draft, closed: e.target.checked || undefined })} />
+              Closed (hidden when importing)
+            </label>
+          )}
+        </div>
+        <div className="mt-3 flex justify-end gap-2">
+          {draft.id && <button className="rounded-md border px-3 py-2" onClick={() => setDraft(emptyDraft)}>Cancel</button>}
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!draft.name.trim()} onClick={saveDraft}>
+            {draft.id ? "Save account" : "Add account"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Conflict Modal ============== */
+function ConflictModal({ conflicts, buckets, onResolve, onCancel }: {
+  conflicts: RecordConflict[];
+  buckets: Bucket[];
+  onResolve: (pick: Record<string, "local" | "remote">) => void;
+  onCancel: () => void;
+}) {
+  const keyOf = (c: RecordConflict) => `${c.collection}:${c.id}`;
+  const [pick, setPick] = useState<Record<string, "local" | "remote">>(() =>
+    Object.fromEntries(conflicts.map((c) => [keyOf(c), "local" as const]))
+  );
+  const setAll = (side: "local" | "remote") => setPick(Object.fromEntries(conflicts.map((c) => [keyOf(c), side])));
+  const bucketName = (id: unknown) => (typeof id === "string" ? buckets.find((b) => b.id === id)?.name ?? id : "Unassigned");
+
+  const label = (c: RecordConflict) => {
+    const rec = (c.local ?? c.remote ?? c.base ?? {}) as Partial<Txn & Bucket>;
+    if (c.collection === "buckets") return `Bucket · ${rec.name ?? c.id}`;
+    if (c.collection === "bankProfiles") return `Bank profile · ${rec.name ?? c.id}`;
+    return `${rec.date ? fmtPretty(rec.date) : ""} · ${extractTitle(rec.description ?? "")} · ${fmtCurrency(rec.amount ?? 0)}`;
+  };
+
+  const show = (field: string, v: unknown): string => {
+    if (v === undefined || v === null) return field === "bucketId" ? "Unassigned" : "—";
+    if (field === "bucketId") return bucketName(v);
+    if (field === "amount" && typeof v === "number") return fmtCurrency(v);
+    if (typeof v === "object") return JSON.stringify(v);
+    return String(v);
+  };
+
+  // fields that differ between the two versions; allocations are shown per month
+  const diffRows = (c: RecordConflict) => {
+    const l = (c.local ?? {}) as Record<string, unknown>;
+    const r = (c.remote ?? {}) as Record<string, unknown>;
+    const rows: { field: string; mine: string; theirs: string }[] = [];
+    new Set([...Object.keys(l), ...Object.keys(r)]).forEach((k) => {
+      if (JSON.stringify(l[k]) === JSON.stringify(r[k])) return;
+      if (k === "allocations") {
+        const la = (l[k] ?? {}) as Record<string, number>;
+        const ra = (r[k] ?? {}) as Record<string, number>;
+        new Set([...Object.keys(la), ...Object.keys(ra)]).forEach((m) => {
+          if (la[m] !== ra[m]) rows.push({ field: `Budget ${m}`, mine: show("amount", la[m]), theirs: show("amount", ra[m]) });
+        });
+        return;
+      }
+      rows.push({ field: k, mine: show(k, l[k]), theirs: show(k, r[k]) });
+    });
+    return rows;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-3xl rounded-2xl border bg-white p-6 shadow-xl">
+        <h2 className="mb-1 text-2xl font-bold">Changes on Both Devices</h2>
+        <div className="mb-4 text-sm text-gray-500">
+          Someone saved while you were editing. Their other changes were merged in; these {conflicts.length} item{conflicts.length === 1 ? " was" : "s were"} changed on both sides. Pick which version to keep.
+        </div>
+        <div className="mb-4 flex gap-3 text-[12px]">
+          <button className="text-indigo-600 hover:underline" onClick={() => setAll("local")}>Keep all mine</button>
+          <button className="text-indigo-600 hover:underline" onClick={() => setAll("remote")}>Take all theirs</button>
+        </div>
+        <div className="space-y-3">
+          {conflicts.map((c) => {
+            const k = keyOf(c);
+            return (
+              <div key={k} className="rounded-xl border p-3 text-sm">
+                <div className="mb-2 font-medium">{label(c)}</div>
+                <div className="grid grid-cols-[1fr_1fr_1fr] gap-x-3 gap-y-1 text-[12px]">
+                  <div />
+                  <label className={`flex cursor-pointer items-center gap-2 rounded-md px-2 py-1 ${pick[k] === "local" ? "bg-indigo-50 font-semibold text-indigo-700" : ""}`}>
+                    <input type="radio" checked={pick[k] === "local"} onChange={() => setPick({ ...pick, [k]: "local" })} /> Mine
+                  </label>
+                  <label className={`flex cursor-pointer items-center gap-2 rounded-md px-2 py-1 ${pick[k] === "remote" ? "bg-indigo-50 font-semibold text-indigo-700" : ""}`}>
+                    <input type="radio" checked={pick[k] === "remote"} onChange={() => setPick({ ...pick, [k]: "remote" })} /> Theirs
+                  </label>
+                  {!c.local || !c.remote ? (
+                    <>
+                      <div className="text-gray-500">status</div>
+                      <div>{c.local ? "Edited" : "Deleted"}</div>
+                      <div>{c.remote ? "Edited" : "Deleted"}</div>
+                    </>
+                  ) : (
+                    diffRows(c).map((row) => (
+                      <div key={row.field} className="contents">
+                        <div className="text-gray-500">{row.field}</div>
+                        <div className="truncate">{row.mine}</div>
+                        <div className="truncate">{row.theirs}</div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-6 flex justify-end gap-2 border-t pt-4">
+          <button className="rounded-md border px-3 py-2" onClick={onCancel}>Not now</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white" onClick={() => onResolve(pick)}>Save with these choices</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Cloud Modal ============== */
+type CloudView = "connect" | "confirm-new" | "recover" | "change" | "kit";
+
+function CloudModal({ initialHousehold, initialPassphrase, onSave, onCheck, onRecover, onChangePassphrase, onCreateRecoveryKey, onClose }:{
+  initialHousehold: string; initialPassphrase: string;
+  onSave: (hh: string, pp: string) => void;
+  onCheck: (hh: string, pp: string) => Promise<HouseholdCheck>;
+  onRecover: (hh: string, recoveryKey: string, newPp: string) => Promise<void>;
+  // these two are only offered while connected
+  onChangePassphrase?: (next: string) => Promise<void>;
+  onCreateRecoveryKey?: () => Promise<string>;
+  onClose: () => void;
+}) {
+  const [view, setView] = useState<CloudView>("connect");
+  const [hh, setHh] = useState(initialHousehold);
+  const [pp, setPp] = useState(initialPassphrase);
+  const [recoveryKey, setRecoveryKey] = useState("");
+  const [nextPp, setNextPp] = useState("");
+  const [confirmPp, setConfirmPp] = useState("");
+  const [kitKey, setKitKey] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const newPpOk = !!nextPp.trim() && nextPp === confirmPp;
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function go(next: CloudView) {
+    setView(next);
+    setError("");
+    setNextPp(""); setConfirmPp("");
+  }
+
+  const connect = () => run(async () => {
+    const check = await onCheck(hh.trim(), pp);
+    if (check === "wrong-passphrase") setError("That passphrase doesn't open this household's budget. Check for typos, or use your recovery key.");
+    else if (check === "new") setView("confirm-new");
+    else onSave(hh.trim(), pp);
+  });
+
+  const newPassphraseFields = (
+    <div>
+      <label className="block text-sm font-medium">New passphrase</label>
+      <input className="mt-1 w-full rounded-md border px-3 py-2" type="password" value={nextPp} onChange={(e) => setNextPp(e.target.value)} />
+      <input className="mt-2 w-full rounded-md border px-3 py-2" type="password" placeholder="Type it again" value={confirmPp} onChange={(e) => setConfirmPp(e.target.value)} />
+    </div>
+  );
+  const errorLine = error && <div className="text-sm text-red-600">{error}</div>;
+
+  let title = "Cloud: Connect";
+  let body: React.ReactNode;
+  if (view === "confirm-new") {
+    title = "Start a new household?";
+    body = (
+      <>
+        <div className="text-sm text-gray-600">
+          There's no budget saved under <span className="font-mono font-semibold">{hh.trim()}</span> yet. If you meant to join an existing household, check the code for typos.
+        </div>
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="rounded-md border px-3 py-2" onClick={() => go("connect")}>Fix the code</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white" onClick={() => onSave(hh.trim(), pp)}>Create new household</button>
+        </div>
+      </>
+    );
+  } else if (view === "recover") {
+    title = "Recover with your recovery key";
+    body = (
+      <>
+        <div>
+          <label className="block text-sm font-medium">Household Code</label>
+          <input className="mt-1 w-full rounded-md border px-3 py-2" value={hh} onChange={(e) => setHh(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium">Recovery key</label>
+          <input className="mt-1 w-full rounded-md border px-3 py-2 font-mono uppercase" placeholder="XXXX-XXXX-…" value={recoveryKey} onChange={(e) => setRecoveryKey(e.target.value)} />
+        </div>
+        {newPassphraseFields}
+        {errorLine}
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="rounded-md border px-3 py-2" onClick={() => go("connect")} disabled={busy}>Back</button>
+          <button
+            className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50"
+            disabled={busy || !hh.trim() || !recoveryKey.trim() || !newPpOk}
+            onClick={() => run(async () => { await onRecover(hh.trim(), recoveryKey, nextPp); onSave(hh.trim(), nextPp); })}
+          >
+            {busy ? "Recovering…" : "Set new passphrase"}
+          </button>
+        </div>
+      </>
+    );
+  } else if (view === "change" && onChangePassphrase) {
+    title = "Change household passphrase";
+    body = (
+      <>
+        <div className="text-sm text-gray-500">The cloud copy is re-encrypted with the new passphrase. Everyone else in the household will need to reconnect with it. Your recovery key keeps working.</div>
+        {newPassphraseFields}
+        {errorLine}
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="rounded-md border px-3 py-2" onClick={() => go("connect")} disabled={busy}>Back</button>
+          <button
+            className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50"
+            disabled={busy || !newPpOk || nextPp === initialPassphrase}
+            onClick={() => run(() => onChangePassphrase(nextPp))}
+          >
+            {busy ? "Re-encrypting…" : "Change passphrase"}
+          </button>
+        </div>
+      </>
+    );
+  } else if (view === "kit" && onCreateRecoveryKey) {
+    title = "Recovery kit";
+    body = kitKey ? (
+      <>
+        <RecoveryKit householdId={initialHousehold} recoveryKey={kitKey} />
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="rounded-md border px-3 py-2" onClick={() => downloadRecoveryKit(initialHousehold, kitKey)}>Download</button>
+          <button className="rounded-md border px-3 py-2" onClick={() => printRecoveryKit(initialHousehold, kitKey)}>Print</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white" onClick={onClose}>I've stored it safely</button>
+        </div>
+      </>
+    ) : (
+      <>
+        <div className="text-sm text-gray-600">
+          A recovery key opens the budget if the passphrase is ever forgotten. Print it or save it somewhere safe, away from this computer. Making a new kit replaces the old recovery key.
+        </div>
+        {errorLine}
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="rounded-md border px-3 py-2" onClick={() => go("connect")} disabled={busy}>Back</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={busy} onClick={() => run(async () => setKitKey(await onCreateRecoveryKey()))}>
+            {busy ? "Creating…" : "Create recovery kit"}
+          </button>
+        </div>
+      </>
+    );
+  } else {
+    body = (
+      <>
+        <div>
+          <label className="block text-sm font-medium">Household Code</label>
+          <input className="mt-1 w-full rounded-md border px-3 py-2" placeholder="e.g. trowbridge-home" value={hh} onChange={(e) => setHh(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium">Passphrase</label>
+          <input className="mt-1 w-full rounded-md border px-3 py-2" placeholder="Something only you two know" type="password" value={pp} onChange={(e) => setPp(e.target.value)} />
+          <div className="mt-1 text-xs text-gray-500">
+            Used only in your browser to encrypt/decrypt. <button className="underline" onClick={() => go("recover")}>Forgot it?</button>
+          </div>
+        </div>
+        {errorLine}
+        {(onChangePassphrase || onCreateRecoveryKey) && (
+          <div className="flex gap-3 text-sm text-indigo-700">
+            {onChangePassphrase && <button className="underline" onClick={() => go("change")}>Change passphrase…</button>}
+            {onCreateRecoveryKey && <button className="underline" onClick={() => go("kit")}>Recovery kit…</button>}
+          </div>
+        )}
+        <div className="flex justify-end gap-2 pt-2">
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Cancel</button>
+          <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={busy || !hh.trim() || !pp.trim()} onClick={connect}>
+            {busy ? "Checking…" : "Save & Connect"}
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-md rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-3 text-lg font-semibold">{title}</div>
+        <div className="space-y-3">{body}</div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Recovery Kit ============== */
+function recoveryKitText(householdId: string, recoveryKey: string) {
+  return [
+    "Trowbridge Family Budget — Recovery Kit",
+    `Created: ${new Date().toLocaleDateString()}`,
+    "",
+    `Household code: ${householdId}`,
+    `Recovery key:   ${recoveryKey}`,
+    "",
+    "If the household passphrase is forgotten, open Cloud: Connect, choose",
+    "\"Forgot it?\" and enter this recovery key to set a new passphrase.",
+    "Anyone with this key can read the budget. Keep it somewhere safe.",
+  ].join("\n");
+}
+
+function downloadRecoveryKit(householdId: string, recoveryKey: string) {
+  const blob = new Blob([recoveryKitText(householdId, recoveryKey)], { type: "text/plain;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = `budget-recovery-kit-${householdId}.txt`;
+  document.body.appendChild(a); a.click(); a.remove();
+  URL.revokeObjectURL(url);
+}
+
+function printRecoveryKit(householdId: string, recoveryKey: string) {
+  const w = window.open("", "_blank", "width=640,height=480");
+  if (!w) return;
+  const pre = w.document.createElement("pre");
+  pre.style.font = "16px/1.5 ui-monospace, monospace";
+  pre.textContent = recoveryKitText(householdId, recoveryKey);
+  w.document.body.appendChild(pre);
+  w.print();
+}
+
+function RecoveryKit({ householdId, recoveryKey }: { householdId: string; recoveryKey: string }) {
+  return (
+    <div className="rounded-xl border-2 border-dashed border-indigo-300 bg-indigo-50 p-4">
+      <div className="text-xs uppercase tracking-wide text-indigo-700">Household code</div>
+      <div className="mb-2 font-mono">{householdId}</div>
+      <div className="text-xs uppercase tracking-wide text-indigo-700">Recovery key</div>
+      <div className="select-all font-mono text-lg font-semibold tracking-wider">{recoveryKey}</div>
+      <div className="mt-2 text-xs text-gray-600">Anyone with this key can read the budget. It won't be shown again.</div>
+    </div>
+  );
+}
+
+/* ============== Unlock Screen ============== */
+function UnlockScreen({ onUnlock, onErase }: {
+  onUnlock: (pin: string) => Promise<boolean>;
+  onErase: () => Promise<void>;
+}) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [confirmErase, setConfirmErase] = useState(false);
+
+  async function submit() {
+    setBusy(true);
+    setError("");
+    const ok = await onUnlock(pin).catch(() => false);
+    setBusy(false);
+    if (!ok) { setError("That PIN didn't work."); setPin(""); }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 p-6">
+      <div className="w-full max-w-sm rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-1 text-lg font-semibold">🔒 Trowbridge Family Budget</div>
+        <div className="mb-4 text-sm text-gray-500">The budget on this device is locked. Enter your PIN or passphrase to open it.</div>
+        <form onSubmit={(e) => { e.preventDefault(); if (pin) submit(); }} className="space-y-3">
+          <input className="w-full rounded-md border px-3 py-2" type="password" autoFocus placeholder="PIN or passphrase" value={pin} onChange={(e) => setPin(e.target.value)} />
+          {error && <div className="text-sm text-red-600">{error}</div>}
+          <button type="submit" className="w-full rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!pin || busy}>{busy ? "Unlocking…" : "Unlock"}</button>
+        </form>
+        <div className="mt-4 border-t pt-3 text-xs text-gray-500">
+          {confirmErase ? (
+            <div className="space-y-2">
+              <div>This deletes the budget stored on this device. Anything already synced to the cloud comes back when you connect again.</div>
+              <div className="flex gap-2">
+                <button className="rounded-md border px-2 py-1" onClick={() => setConfirmErase(false)}>Keep it</button>
+                <button className="rounded-md border border-red-300 bg-red-50 px-2 py-1 text-red-700" onClick={onErase}>Erase local data</button>
+              </div>
+            </div>
+          ) : (
+            <button className="underline" onClick={() => setConfirmErase(true)}>Forgot your PIN?</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Repair Report ============== */
+function RepairIssues({ reports }: { reports: RepairReport[] }) {
+  return (
+    <div className="mt-2 space-y-2">
+      {reports.map((r, i) => (
+        <details key={i} open={reports.length === 1}>
+          <summary className="cursor-pointer font-medium">{r.source}: {r.issues.length} problem{r.issues.length === 1 ? "" : "s"}</summary>
+          <ul className="mt-1 max-h-48 overflow-y-auto font-mono text-xs">
+            {r.issues.map((issue, j) => <li key={j}>{issue.path || "(whole budget)"} — {issue.message}</li>)}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+function downloadRaw(report: RepairReport) {
+  const blob = new Blob([JSON.stringify(report.raw, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a"); a.href = url; a.download = `trowbridge-budget-unreadable-${Date.now()}.json`; a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Stored data that couldn't be made into a budget. Nothing is saved over it
+// until the user chooses to start over.
+function RepairScreen({ report, onStartOver }: { report: RepairReport; onStartOver: () => void }) {
+  const [confirmStart, setConfirmStart] = useState(false);
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 p-6">
+      <div className="w-full max-w-lg rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-1 text-lg font-semibold">🩹 The saved budget couldn't be opened</div>
+        <div className="mb-2 text-sm text-gray-500">
+          {report.source} is damaged or from a newer version of the app. Here is what's wrong with it. Download a copy before doing anything else.
+        </div>
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <RepairIssues reports={[report]} />
+        </div>
+        <div className="mt-4 flex flex-wrap justify-end gap-2">
+          <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={() => downloadRaw(report)}>Download the damaged data</button>
+          {confirmStart ? (
+            <button className="rounded-md border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700" onClick={onStartOver}>Yes, replace it with an empty budget</button>
+          ) : (
+            <button className="rounded-md bg-indigo-600 px-3 py-2 text-sm text-white" onClick={() => setConfirmStart(true)}>Start over…</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Local Lock Modal ============== */
+const AUTO_LOCK_CHOICES = [1, 5, 15, 30, 60];
+const MIN_PIN_LENGTH = 4;
+
+function LocalLockModal({ status, onSetPin, onAutoLock, onLockNow, onClose }: {
+  status: LocalLockStatus;
+  onSetPin: (pin: string | null) => Promise<void>;
+  onAutoLock: (minutes: number) => Promise<void>;
+  onLockNow: () => void;
+  onClose: () => void;
+}) {
+  const [pin, setPin] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const pinOk = pin.length >= MIN_PIN_LENGTH && pin === confirm;
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      setPin(""); setConfirm("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-md rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-1 text-lg font-semibold">{status.enabled ? "🔒 Local lock is on" : "🔓 Lock this device"}</div>
+        <div className="mb-4 text-sm text-gray-500">
+          {status.enabled
+            ? "The budget stored on this device is encrypted with your PIN and locks itself when nobody's using it."
+            : "Encrypt the budget stored on this device with a PIN or passphrase. You'll enter it each time the app opens."}
+        </div>
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium">{status.enabled ? "New PIN or passphrase" : "PIN or passphrase"}</label>
+            <input className="mt-1 w-full rounded-md border px-3 py-2" type="password" value={pin} onChange={(e) => setPin(e.target.value)} />
+            <input className="mt-2 w-full rounded-md border px-3 py-2" type="password" placeholder="Type it again" value={confirm} onChange={(e) => setConfirm(e.target.value)} />
+            <div className="mt-1 text-xs text-gray-500">
+              At least {MIN_PIN_LENGTH} characters. There's no way to recover it; a forgotten PIN means erasing this device's copy.
+            </div>
+          </div>
+          {status.enabled && (
+            <div>
+              <label className="block text-sm font-medium">Lock after</label>
+              <select className="mt-1 w-full rounded-md border px-3 py-2" value={status.autoLockMinutes} disabled={busy} onChange={(e) => run(() => onAutoLock(Number(e.target.value)))}>
+                {AUTO_LOCK_CHOICES.map((m) => <option key={m} value={m}>{m} minute{m === 1 ? "" : "s"} without activity</option>)}
+              </select>
+            </div>
+          )}
+          {error && <div className="text-sm text-red-600">{error}</div>}
+          <div className="flex flex-wrap justify-end gap-2 pt-2">
+            {status.enabled && (
+              <>
+                <button className="mr-auto rounded-md border border-red-300 bg-red-50 px-3 py-2 text-red-700 disabled:opacity-50" disabled={busy} onClick={() => run(() => onSetPin(null))}>Turn off</button>
+                <button className="rounded-md border px-3 py-2 disabled:opacity-50" disabled={busy} onClick={onLockNow}>Lock now</button>
+              </>
+            )}
+            <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
+            <button className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50" disabled={!pinOk || busy} onClick={() => run(() => onSetPin(pin))}>
+              {busy ? "Encrypting…" : status.enabled ? "Change PIN" : "Turn on lock"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Members Modal ============== */
+const ROLE_HINTS: Record<MemberRole, string> = {
+  owner: "Can change anything and manage members",
+  editor: "Can change the budget and transactions",
+  viewer: "Can look, but the app won't let them change anything",
+};
+
+function MembersModal({ members, me, canManage, onAdd, onResetPassphrase, onChangeRole, onRemove, onClose }: {
+  members: Member[];
+  me: ID | null;
+  canManage: boolean;
+  onAdd: (name: string, role: MemberRole, passphrase: string) => Promise<void>;
+  onResetPassphrase: (id: ID, passphrase: string) => Promise<void>;
+  onChangeRole: (id: ID, role: MemberRole) => void;
+  onRemove: (id: ID) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<MemberRole>("editor");
+  const [pp, setPp] = useState("");
+  const [confirm, setConfirm] = useState("");
+  // member whose passphrase is being reset
+  const [resetId, setResetId] = useState<ID | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const ppOk = !!pp.trim() && pp === confirm;
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+      setName(""); setPp(""); setConfirm(""); setResetId(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const resetting = members.find((m) => m.id === resetId);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-lg rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-1 text-lg font-semibold">👥 Household members</div>
+        <div className="mb-4 text-sm text-gray-500">
+          Everyone signs in with the household code and their own passphrase, so the app knows who changed what.
+          {canManage && " Removing someone stops their passphrase from opening the budget, but can't take back what they have already seen."}
+        </div>
+
+        <div className="mb-4 space-y-2">
+          {members.length === 0 && <div className="text-sm text-gray-400">No members yet. Until then everyone shares the household passphrase.</div>}
+          {members.map((m) => (
+            <div key={m.id} className="flex items-center gap-2 rounded-lg border px-3 py-2 text-sm">
+              <div className="flex-1 font-medium">
+                {m.name}
+                {m.id === me && <span className="ml-1 text-xs font-normal text-gray-400">(you)</span>}
+              </div>
+              {canManage && m.id !== me ? (
+                <>
+                  <select className="rounded-md border px-2 py-1 text-xs" value={m.role} disabled={busy} onChange={(e) => onChangeRole(m.id, e.target.value as MemberRole)} title={ROLE_HINTS[m.role]}>
+                    {(Object.keys(ROLE_LABELS) as MemberRole[]).map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                  <button className="rounded-md border px-2 py-1 text-xs hover:bg-gray-100" disabled={busy} onClick={() => { setResetId(m.id); setPp(""); setConfirm(""); }}>New passphrase</button>
+                  <button className="rounded-md border px-2 py-1 text-xs hover:border-red-500 hover:text-red-600" disabled={busy} onClick={() => run(() => onRemove(m.id))}>Remove</button>
+                </>
+              ) : (
+                <span className="text-xs text-gray-500" title={ROLE_HINTS[m.role]}>{ROLE_LABELS[m.role]}</span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <div className="space-y-2 rounded-xl bg-gray-50 p-3">
+            <div className="text-sm font-medium">{resetting ? `New passphrase for ${resetting.name}` : "Add a member"}</div>
+            {!resetting && (
+              <div className="flex gap-2">
+                <input className="flex-1 rounded-md border px-3 py-2 text-sm" placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+                <select className="rounded-md border px-2 py-2 text-sm" value={role} onChange={(e) => setRole(e.target.value as MemberRole)} title={ROLE_HINTS[role]}>
+                  {(Object.keys(ROLE_LABELS) as MemberRole[]).map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+              </div>
+            )}
+            <input className="w-full rounded-md border px-3 py-2 text-sm" type="password" placeholder="Their passphrase" value={pp} onChange={(e) => setPp(e.target.value)} />
+            <input className="w-full rounded-md border px-3 py-2 text-sm" type="password" placeholder="Type it again" value={confirm} onChange={(e) => setConfirm(e.target.value)} />
+            <div className="text-xs text-gray-500">Tell them in person; they can change it later from Cloud: Connect.</div>
+            <div className="flex justify-end gap-2">
+              {resetting && <button className="rounded-md border px-3 py-1.5 text-sm" onClick={() => setResetId(null)}>Cancel</button>}
+              <button
+                className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm text-white disabled:opacity-50"
+                disabled={busy || !ppOk || (!resetting && !name.trim())}
+                onClick={() => run(() => resetting ? onResetPassphrase(resetting.id, pp) : onAdd(name.trim(), role, pp))}
+              >
+                {busy ? "Saving…" : resetting ? "Set passphrase" : "Add member"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+        <div className="mt-4 flex justify-end">
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== Backup Import Modal ============== */
+const COLLECTION_LABELS: Record<BackupCollection, string> = {
+  buckets: "Buckets",
+  txns: "Transactions",
+  accounts: "Accounts",
+  rules: "Rules",
+  recurring: "Recurring items",
+  bankProfiles: "Bank profiles",
+};
+
+function BackupImportModal({ fileName, text, current, onApply, onClose }: {
+  fileName: string;
+  text: string;
+  current: AppState;
+  onApply: (backup: AppState, mode: ImportMode) => void;
+  onClose: () => void;
+}) {
+  const [encrypted] = useState(() => { try { return isEncryptedBackup(text); } catch { return false; } });
+  const [passphrase, setPassphrase] = useState("");
+  const [opened, setOpened] = useState<Prepared | null>(null);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [mode, setMode] = useState<ImportMode>("merge");
+
+  async function open(pp?: string) {
+    setBusy(true);
+    setError("");
+    try {
+      setOpened(await readBackup(text, pp));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+  // plain backups can be read straight away
+  useEffect(() => {
+    if (encrypted) return;
+    readBackup(text).then(setOpened, (e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [text, encrypted]);
+
+  const backup = opened?.state ?? null;
+  const plan = useMemo(() => (backup ? planImport(current, backup, mode) : null), [current, backup, mode]);
+  const changes = plan ? BACKUP_COLLECTIONS.filter((c) => Object.values(plan.summary[c]).some((n) => n > 0)) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-lg rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-1 text-lg font-semibold">Import JSON backup</div>
+        <div className="mb-4 text-sm text-gray-500">{fileName}</div>
+
+        {encrypted && !opened && (
+          <form onSubmit={(e) => { e.preventDefault(); if (passphrase) open(passphrase); }} className="mb-3 space-y-2">
+            <div className="text-sm">This backup is encrypted. Enter the passphrase it was saved with.</div>
+            <input className="w-full rounded-md border px-3 py-2" type="password" autoFocus placeholder="Passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+            <div className="flex justify-end">
+              <button type="submit" className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm text-white disabled:opacity-50" disabled={!passphrase || busy}>{busy ? "Opening…" : "Open backup"}</button>
+            </div>
+          </form>
+        )}
+        {!encrypted && !opened && !error && <div className="text-sm text-gray-500">Reading backup…</div>}
+
+        {opened?.report && (
+          <div className={`mb-3 rounded-md border px-3 py-2 text-sm ${backup ? "border-amber-200 bg-amber-50 text-amber-800" : "border-red-200 bg-red-50 text-red-800"}`}>
+            {backup ? "Some of the backup had problems and will be imported as repaired:" : "This file doesn't hold a budget that can be imported:"}
+            <RepairIssues reports={[opened.report]} />
+          </div>
+        )}
+
+        {backup && plan && (
+          <>
+            <div className="mb-3 space-y-2 text-sm">
+              <label className="flex items-start gap-2">
+                <input type="radio" className="mt-1" checked={mode === "merge"} onChange={() => setMode("merge")} />
+                <span><span className="font-medium">Merge</span> — add what this budget doesn't have yet. Buckets match by id, transactions by id or import fingerprint; nothing here is changed.</span>
+              </label>
+              <label className="flex items-start gap-2">
+                <input type="radio" className="mt-1" checked={mode === "replace"} onChange={() => setMode("replace")} />
+                <span><span className="font-medium">Replace everything</span> — the budget becomes exactly the backup. Members, the change log and snapshots are kept.</span>
+              </label>
+            </div>
+            <div className="mb-1 text-sm font-medium">What will change</div>
+            {changes.length === 0 ? (
+              <div className="text-sm text-gray-500">Nothing — this budget already has everything in the backup.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1" />
+                    <th className="py-1 text-right">Added</th>
+                    <th className="py-1 text-right">Changed</th>
+                    <th className="py-1 text-right">Removed</th>
+                    <th className="py-1 text-right">Already here</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((c) => {
+                    const n = plan.summary[c];
+                    return (
+                      <tr key={c} className="border-t">
+                        <td className="py-1">{COLLECTION_LABELS[c]}</td>
+                        <td className="py-1 text-right text-emerald-700">{n.added || "—"}</td>
+                        <td className="py-1 text-right text-amber-700">{n.changed || "—"}</td>
+                        <td className="py-1 text-right text-red-700">{n.removed || "—"}</td>
+                        <td className="py-1 text-right text-gray-500">{n.skipped || "—"}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            <div className="mt-2 text-xs text-gray-500">You can undo the import afterwards.</div>
+          </>
+        )}
+
+        {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+        <div className="mt-4 flex justify-end gap-2">
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Cancel</button>
+          <button
+            className="rounded-md bg-indigo-600 px-3 py-2 text-white disabled:opacity-50"
+            disabled={!backup || changes.length === 0}
+            onClick={() => backup && onApply(backup, mode)}
+          >
+            {mode === "replace" ? "Replace budget" : "Merge backup"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ============== History Modal ============== */
+const COLLECTION_NAMES: Record<string, string> = { buckets: "Bucket", txns: "Transaction" };
+const LOG_PAGE = 100;
+
+// The budget as a read-only table: each bucket's allocation and spending for one month
+function BudgetAsOf({ data, month, log, at, members }: {
+  data: SnapshotData;
+  month: string;
+  log: AuditEntry[];
+  at: string;
+  members: Member[];
+}) {
+  const txns = data.txns.filter((t) => !t.deleted && isBudgetTxn(t) && monthKeyFrom(t.date) === month);
+  const buckets = data.buckets.filter((b) => !b.deletedMonths?.[month]);
+  // newest logged change to each bucket at or before `at`
+  const lastChange = (id: ID) => log.find((e) => e.at <= at && e.changes.some((c) => c.collection === "buckets" && c.id === id));
+  return (
+    <div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="py-1">Bucket</th>
+            <th className="py-1 text-right">Allocated</th>
+            <th className="py-1 text-right">Spent</th>
+            <th className="py-1 pl-3">Last changed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {buckets.map((b) => {
+            const change = lastChange(b.id);
+            return (
+              <tr key={b.id} className="border-t">
+                <td className="py-1">{b.name}</td>
+                <td className="py-1 text-right">{fmtCurrency(b.allocations[month] || 0)}</td>
+                <td className="py-1 text-right">{fmtCurrency(txns.reduce((s, t) => s + amountInBucket(t, b.id), 0))}</td>
+                <td className="py-1 pl-3 text-xs text-gray-500">
+                  {change ? `${new Date(change.at).toLocaleString()} · ${memberName(members, change.by ?? undefined) ?? "Household"}` : "—"}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="mt-2 text-xs text-gray-500">{txns.length} transaction{txns.length === 1 ? "" : "s"} in {month}</div>
+    </div>
+  );
+}
+
+function HistoryModal({ state, activeMonthKey, canEdit, onSaveSnapshot, onRestoreSnapshot, onDeleteSnapshot, onClose }: {
+  state: AppState;
+  activeMonthKey: string;
+  canEdit: boolean;
+  onSaveSnapshot: (name: string) => void;
+  onRestoreSnapshot: (snapshot: Snapshot) => void;
+  onDeleteSnapshot: (id: ID) => void;
+  onClose: () => void;
+}) {
+  const [tab, setTab] = useState<"changes" | "browse" | "snapshots">("changes");
+  const [query, setQuery] = useState("");
+  const [shown, setShown] = useState(LOG_PAGE);
+  const [name, setName] = useState("");
+  // what Browse shows: the budget at a moment, or a saved snapshot
+  const [asOf, setAsOf] = useState(() => new Date().toISOString().slice(0, 16));
+  const [snapshotId, setSnapshotId] = useState<ID | null>(null);
+  const [month, setMonth] = useState(activeMonthKey);
+
+  const members = state.members || [];
+  const snapshots = [...(state.snapshots || [])].sort((a, b) => b.at.localeCompare(a.at));
+  const log = useMemo(() => sortedLog(state.log), [state.log]);
+  const who = (id: ID | null) => memberName(members, id ?? undefined) ?? "Household";
+
+  const q = query.trim().toLowerCase();
+  const matching = !q ? log : log.filter((e) =>
+    [e.label, who(e.by), ...e.changes.flatMap((c) => [c.name ?? "", c.field ?? "", c.collection])].some((s) => s.toLowerCase().includes(q)));
+
+  const snapshot = snapshots.find((s) => s.id === snapshotId);
+  // datetime-local is in local time; the log is in UTC
+  const at = snapshot ? snapshot.at : new Date(asOf).toISOString();
+  const data = useMemo(() => stateAt(state, at), [state, at]);
+
+  const tabClass = (t: typeof tab) => `rounded-md px-3 py-1.5 text-sm ${tab === t ? "bg-indigo-600 text-white" : "border hover:bg-gray-50"}`;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-black/30 p-4">
+      <div className="mx-auto max-w-3xl rounded-2xl border bg-white p-6 shadow-xl">
+        <div className="mb-1 text-lg font-semibold">🕘 History</div>
+        <div className="mb-4 text-sm text-gray-500">Every change to the budget, who made it, and how things stood at any earlier moment.</div>
+        <div className="mb-4 flex gap-2">
+          <button className={tabClass("changes")} onClick={() => setTab("changes")}>Changes</button>
+          <button className={tabClass("browse")} onClick={() => setTab("browse")}>Browse</button>
+          <button className={tabClass("snapshots")} onClick={() => setTab("snapshots")}>Snapshots ({snapshots.length})</button>
+        </div>
+
+        {tab === "changes" && (
+          <div>
+            <input className="mb-3 w-full rounded-md border px-3 py-2 text-sm" placeholder="Filter by bucket, description, field or person" value={query} onChange={(e) => { setQuery(e.target.value); setShown(LOG_PAGE); }} />
+            {matching.length === 0 && <div className="text-sm text-gray-400">{log.length ? "Nothing matches." : "No changes logged yet."}</div>}
+            <div className="space-y-2">
+              {matching.slice(0, shown).map((e) => (
+                <div key={e.id} className="rounded-lg border px-3 py-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{e.label}</span>
+                    <span className="text-xs text-gray-500">{new Date(e.at).toLocaleString()} · {who(e.by)}</span>
+                  </div>
+                  <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                    {e.changes.slice(0, 8).map((c, i) => (
+                      <li key={i}>
+                        <span className="text-gray-400">{COLLECTION_NAMES[c.collection] ?? c.collection}</span>{" "}
+                        {c.name && <span className="font-medium">{c.name}</span>}{" "}
+                        {changeKind(c) === "changed" ? describeChange(c).join("; ") : changeKind(c)}
+                      </li>
+                    ))}
+                    {e.changes.length > 8 && <li className="text-gray-400">…and {e.changes.length - 8} more</li>}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            {matching.length > shown && (
+              <button className="mt-2 text-sm text-indigo-600 hover:underline" onClick={() => setShown((n) => n + LOG_PAGE)}>Show more ({matching.length - shown} older)</button>
+            )}
+          </div>
+        )}
+
+        {tab === "browse" && (
+          <div>
+            <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+              <select className="rounded-md border px-2 py-1" value={snapshotId ?? ""} onChange={(e) => setSnapshotId(e.target.value || null)}>
+                <option value="">As of a date and time</option>
+                {snapshots.map((s) => <option key={s.id} value={s.id}>Snapshot: {s.name}</option>)}
+              </select>
+              {!snapshot && <input type="datetime-local" className="rounded-md border px-2 py-1" value={asOf} onChange={(e) => e.target.value && setAsOf(e.target.value)} />}
+              <label className="flex items-center gap-1">Month <input type="month" className="rounded-md border px-2 py-1" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} /></label>
+            </div>
+            {snapshot && <div className="mb-2 text-xs text-gray-500">Saved {new Date(snapshot.at).toLocaleString()} by {who(snapshot.by)}. Rebuilt from the change log. Read-only.</div>}
+            {!snapshot && <div className="mb-2 text-xs text-gray-500">Rebuilt from the change log. Read-only; edits older than the oldest logged change show as they are now.</div>}
+            <BudgetAsOf data={data} month={month} log={log} at={at} members={members} />
+            {snapshot && canEdit && (
+              <div className="mt-3 flex justify-end">
+                <button className="rounded-md bg-indigo-600 px-3 py-1.5 text-sm text-white" onClick={() => { if (confirm(`Restore "${snapshot.name}"? You can undo this.`)) onRestoreSnapshot(snapshot); }}>Restore this snapshot</button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {tab === "snapshots" && (
+          <div>
+            {canEdit && snapshots.length < MAX_SNAPSHOTS && (
+              <div className="mb-3 flex gap-2">
+                <input className="flex-1 rounded-md border px-3 py-2 text-sm" placeholder="Snapshot name, e.g. Before tax refund" value={name} onChange={(e) => setName(e.target.value)} />
+                <button className="rounded-md bg-indigo-600 px-3 py-2 text-sm text-white disabled:opacity-50" disabled={!name.trim()} onClick={() => { onSaveSnapshot(name.trim()); setName(""); }}>Save snapshot</button>
+              </div>
+            )}
+            {canEdit && snapshots.length >= MAX_SNAPSHOTS && (
+              <div className="mb-3 text-sm text-gray-500">You have {MAX_SNAPSHOTS} snapshots, the most a household can keep. Delete one to save another.</div>
+            )}
+            {snapshots.length === 0 && <div className="text-sm text-gray-400">No snapshots yet.</div>}
+            <div className="space-y-2">
+              {snapshots.map((s) => (
+                <div key={s.id} className="flex items-center gap-2 rounded-lg border px-3 py-2 text-sm">
+                  <div className="flex-1">
+                    <div className="font-medium">{s.name}</div>
+                    <div className="text-xs text-gray-500">{new Date(s.at).toLocaleString()} · {who(s.by)}</div>
+                  </div>
+                  <button className="rounded-md border px-2 py-1 text-xs hover:bg-gray-100" onClick={() => { setSnapshotId(s.id); setTab("browse"); }}>View</button>
+                  {canEdit && (
+                    <>
+                      <button className="rounded-md border px-2 py-1 text-xs hover:bg-gray-100" onClick={() => { if (confirm(`Restore "${s.name}"? You can undo this.`)) onRestoreSnapshot(s); }}>Restore</button>
+                      <button className="rounded-md border px-2 py-1 text-xs hover:border-red-500 hover:text-red-600" onClick={() => { if (confirm(`Delete snapshot "${s.name}"?`)) onDeleteSnapshot(s.id); }}>Delete</button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-4 flex justify-end">
+          <button className="rounded-md border px-3 py-2" onClick={onClose}>Close</button>
         </div>
       </div>
     </div>
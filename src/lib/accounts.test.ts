@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { accountBalance, finishReconcile, reconcileDifference, runningBalances } from "./accounts";
+import type { Account, Txn } from "./types";
+
+const checking: Account = { id: "checking", name: "Checking", kind: "checking", openingBalance: 100 };
+const txn = (id: string, date: string, amount: number, extra: Partial<Txn> = {}): Txn =>
+  ({ id, date, description: id, amount, bucketId: null, accountId: "checking", ...extra });
+
+const txns = [
+  txn("pay", "2024-03-15", 2000.1, { cleared: true }),
+  txn("rent", "2024-03-01", -1200, { reconciled: true, cleared: true }),
+  txn("cafe", "2024-03-15", -4.2),
+  txn("gone", "2024-03-10", -50, { deleted: true }),
+  txn("card", "2024-03-05", -75, { accountId: "card" }),
+];
+
+describe("runningBalances", () => {
+  it("adds txns oldest first from the opening balance, skipping deleted and other accounts", () => {
+    expect(runningBalances(checking, txns).map((r) => [r.txn.id, r.balance])).toEqual([
+      ["rent", -1100],
+      ["cafe", -1104.2],
+      ["pay", 895.9],
+    ]);
+    expect(accountBalance(checking, txns)).toBe(895.9);
+  });
+});
+
+describe("reconcileDifference", () => {
+  it("compares the statement with cleared and reconciled txns only", () => {
+    expect(reconcileDifference(900.1, checking, txns)).toBe(0);
+    expect(reconcileDifference(895.9, checking, txns)).toBe(-4.2);
+  });
+
+  it("finishing marks cleared txns in that account reconciled", () => {
+    const done = finishReconcile(txns, "checking");
+    expect(done.filter((t) => t.reconciled).map((t) => t.id)).toEqual(["pay", "rent"]);
+  });
+});
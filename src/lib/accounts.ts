@@ -0,0 +1,47 @@
+// src/lib/accounts.ts
+// Account balances and statement reconciliation.
+import type { Account, ID, Txn } from "./types";
+
+export const DEFAULT_ACCOUNT_ID = "checking";
+
+export function defaultAccount(): Account {
+  return { id: DEFAULT_ACCOUNT_ID, name: "Checking", kind: "checking", openingBalance: 0 };
+}
+
+function cents(n: number) { return Math.round(n * 100) / 100; }
+
+export function accountTxns(txns: Txn[], accountId: ID): Txn[] {
+  return txns
+    .filter((t) => t.accountId === accountId && !t.deleted)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+}
+
+export function accountBalance(account: Account, txns: Txn[]): number {
+  return cents(accountTxns(txns, account.id).reduce((s, t) => s + t.amount, account.openingBalance));
+}
+
+// Balance after each txn, oldest first (the register view).
+export function runningBalances(account: Account, txns: Txn[]): { txn: Txn; balance: number }[] {
+  let balance = account.openingBalance;
+  return accountTxns(txns, account.id).map((txn) => {
+    balance = cents(balance + txn.amount);
+    return { txn, balance };
+  });
+}
+
+// What the bank should agree with: opening balance plus everything cleared or reconciled.
+export function clearedBalance(account: Account, txns: Txn[]): number {
+  return cents(accountTxns(txns, account.id)
+    .filter((t) => t.cleared || t.reconciled)
+    .reduce((s, t) => s + t.amount, account.openingBalance));
+}
+
+// Statement ending balance minus cleared balance; 0 means the books agree.
+export function reconcileDifference(statementBalance: number, account: Account, txns: Txn[]): number {
+  return cents(statementBalance - clearedBalance(account, txns));
+}
+
+// Lock in a finished reconciliation: cleared txns become reconciled.
+export function finishReconcile(txns: Txn[], accountId: ID): Txn[] {
+  return txns.map((t) => (t.accountId === accountId && t.cleared && !t.reconciled ? { ...t, reconciled: true } : t));
+}
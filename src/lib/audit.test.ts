@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { logChanges, restoreSnapshot, stateAt } from "./audit";
+import type { AppState, AuditEntry, Snapshot, Txn } from "./types";
+
+const coffee: Txn = { id: "t1", date: "2024-03-02", description: "Cafe", amount: -4.5, bucketId: null };
+const base: AppState = { buckets: [], txns: [coffee] };
+
+const entry = (at: string) => ({ id: at, at, by: null, label: "Edit" });
+
+describe("logChanges", () => {
+  it("logs an added record by id and name, and can still undo it", () => {
+    const rent: Txn = { id: "t2", date: "2024-03-01", description: "Rent", amount: -1200, bucketId: null };
+    const next = logChanges(base, { ...base, txns: [coffee, rent] }, entry("2024-03-05T10:00:00.000Z"));
+    expect(next.log?.[0].changes).toEqual([{ collection: "txns", id: "t2", name: "Rent" }]);
+    expect(stateAt(next, "2024-03-05T09:00:00.000Z").txns).toEqual([coffee]);
+  });
+
+  it("drops the oldest entries once the log is full", () => {
+    const log: AuditEntry[] = Array.from({ length: 1000 }, (_, i) =>
+      ({ ...entry(new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString()), changes: [] }));
+    const next = logChanges({ ...base, log }, { ...base, log, txns: [] }, entry("2024-03-05T10:00:00.000Z"));
+    expect(next.log).toHaveLength(1000);
+    expect(next.log?.[0]).toBe(log[1]);
+    expect(next.log?.[999].at).toBe("2024-03-05T10:00:00.000Z");
+  });
+
+  it("keeps the entries a snapshot still needs", () => {
+    const log: AuditEntry[] = Array.from({ length: 1000 }, (_, i) =>
+      ({ ...entry(new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString()), changes: [] }));
+    const snapshots: Snapshot[] = [{ id: "s1", name: "New year", at: log[0].at, by: null }];
+    const next = logChanges({ ...base, log, snapshots }, { ...base, log, snapshots, txns: [] }, entry("2024-03-05T10:00:00.000Z"));
+    expect(next.log).toHaveLength(1001);
+  });
+});
+
+describe("snapshots", () => {
+  it("rebuild and restore the budget from the log", () => {
+    const snapshot: Snapshot = { id: "s1", name: "Before", at: "2024-03-05T09:00:00.000Z", by: null };
+    const start = { ...base, snapshots: [snapshot] };
+    const edited = logChanges(start, { ...start, txns: [{ ...coffee, bucketId: "food" }] }, entry("2024-03-05T10:00:00.000Z"));
+    const restored = restoreSnapshot(edited, snapshot);
+    expect(restored.txns).toEqual([coffee]);
+    expect(restored.log).toBe(edited.log);
+    expect(restored.snapshots).toEqual([snapshot]);
+  });
+});
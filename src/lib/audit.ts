@@ -0,0 +1,192 @@
+// src/lib/audit.ts
+// Change log and named snapshots. App diffs every edit against the state
+// before it and appends the result to `state.log` (field by field for buckets
+// and txns), so the log is stored, encrypted and merged like any other keyed
+// list. Walking the log backwards from now gives the budget at any earlier moment,
+// as far back as the oldest entry kept (see MAX_LOG_ENTRIES). A snapshot is
+// just a named moment; its budget is rebuilt the same way.
+import type { AppState, AuditChange, AuditEntry, ID, Snapshot, SnapshotData } from "./types";
+import { deepEqual } from "./merge";
+
+type Obj = Record<string, unknown>;
+type Keyed = { id: ID } & Obj;
+
+// Bookkeeping that isn't itself a change to the budget
+const UNLOGGED_KEYS = new Set(["log", "snapshots", "version"]);
+const UNLOGGED_FIELDS = new Set(["createdBy", "updatedBy"]);
+const RECORD_COLLECTIONS = new Set(["buckets", "txns"]);
+// Repeats of the same edit to the same fields (typing) fold into one entry
+const COALESCE_MS = 5000;
+// The log travels with every save, so the oldest entries are dropped, except
+// those a snapshot still needs; snapshots have to be deleted by hand.
+const MAX_LOG_ENTRIES = 1000;
+export const MAX_SNAPSHOTS = 20;
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export function changeKind(c: AuditChange): ChangeKind {
+  if (c.field || !c.id) return "changed";
+  return c.before === undefined ? "added" : "removed";
+}
+
+function recordName(collection: string, r: Obj): string | undefined {
+  const v = collection === "buckets" ? r.name : r.description;
+  return typeof v === "string" ? v : undefined;
+}
+
+function diffRecords(collection: string, prev: Keyed[], next: Keyed[]): AuditChange[] {
+  if (prev === next) return [];
+  const before = new Map(prev.map((r) => [r.id, r]));
+  const seen = new Set<ID>();
+  const out: AuditChange[] = [];
+  next.forEach((r) => {
+    seen.add(r.id);
+    const old = before.get(r.id);
+    if (old === r) return;
+    const name = recordName(collection, r);
+    // undoing an add only needs the id
+    if (!old) { out.push({ collection, id: r.id, name }); return; }
+    new Set([...Object.keys(old), ...Object.keys(r)]).forEach((field) => {
+      if (UNLOGGED_FIELDS.has(field) || deepEqual(old[field], r[field])) return;
+      out.push({ collection, id: r.id, name, field, before: old[field], after: r[field] });
+    });
+  });
+  prev.forEach((r) => {
+    if (!seen.has(r.id)) out.push({ collection, id: r.id, name: recordName(collection, r), before: r });
+  });
+  return out;
+}
+
+// Everything that differs between two states, ignoring the log itself
+export function diffStates(prev: AppState, next: AppState): AuditChange[] {
+  if (prev === next) return [];
+  const p = prev as unknown as Obj;
+  const n = next as unknown as Obj;
+  const out: AuditChange[] = [];
+  new Set([...Object.keys(p), ...Object.keys(n)]).forEach((key) => {
+    if (UNLOGGED_KEYS.has(key) || p[key] === n[key]) return;
+    if (RECORD_COLLECTIONS.has(key)) {
+      out.push(...diffRecords(key, (p[key] ?? []) as Keyed[], (n[key] ?? []) as Keyed[]));
+    } else if (!deepEqual(p[key], n[key])) {
+      out.push({ collection: key, before: p[key], after: n[key] });
+    }
+  });
+  return out;
+}
+
+function sameTargets(a: AuditChange[], b: AuditChange[]): boolean {
+  return a.length === b.length && a.every((c, i) =>
+    c.field !== undefined && c.collection === b[i].collection && c.id === b[i].id && c.field === b[i].field);
+}
+
+// Append what changed between prev and next to next's log (nothing when the
+// edit turned out to change nothing worth logging).
+export function logChanges(prev: AppState, next: AppState, entry: Omit<AuditEntry, "changes">): AppState {
+  if (prev === next) return next;
+  const changes = diffStates(prev, next);
+  if (!changes.length) return next;
+  const log = next.log ?? [];
+  const last = log[log.length - 1];
+  // folding across a snapshot would move the first edit to after it
+  const snapshotSince = (next.snapshots ?? []).some((s) => last && s.at >= last.at);
+  if (last && !snapshotSince && last.label === entry.label && last.by === entry.by &&
+      Date.parse(entry.at) - Date.parse(last.at) < COALESCE_MS && sameTargets(changes, last.changes)) {
+    const folded = { ...last, at: entry.at, changes: changes.map((c, i) => ({ ...c, before: last.changes[i].before })) };
+    return { ...next, log: [...log.slice(0, -1), folded] };
+  }
+  return { ...next, log: pruneLog([...log, { ...entry, changes }], next.snapshots) };
+}
+
+// Keeps the newest MAX_LOG_ENTRIES, and everything after the oldest snapshot,
+// in their stored order. The other device's merge drops the pruned entries
+// too, as deleted here and untouched there.
+function pruneLog(log: AuditEntry[], snapshots: Snapshot[] | undefined): AuditEntry[] {
+  if (log.length <= MAX_LOG_ENTRIES) return log;
+  const sorted = sortedLog(log);
+  const oldestSnapshot = (snapshots ?? []).reduce((min, s) => (s.at < min ? s.at : min), sorted[MAX_LOG_ENTRIES - 1].at);
+  return log.filter((e) => e.at >= oldestSnapshot);
+}
+
+// Newest first; merged logs from several devices aren't in time order.
+export function sortedLog(log: AuditEntry[] | undefined): AuditEntry[] {
+  return [...(log ?? [])].sort((a, b) => b.at.localeCompare(a.at));
+}
+
+// Copy of `obj` with `key` set to `value`, or left out when value is undefined
+function withField(obj: Obj, key: string, value: unknown): Obj {
+  const out = { ...obj };
+  if (value === undefined) delete out[key];
+  else out[key] = value;
+  return out;
+}
+
+function unapply(state: Obj, c: AuditChange): Obj {
+  if (!c.id) return withField(state, c.collection, c.before);
+  const list = (state[c.collection] ?? []) as Keyed[];
+  let next: Keyed[];
+  if (c.field) {
+    next = list.map((r) => (r.id === c.id ? withField(r, c.field!, c.before) as Keyed : r));
+  } else if (c.before === undefined) {
+    next = list.filter((r) => r.id !== c.id);
+  } else {
+    next = list.some((r) => r.id === c.id) ? list : [...list, c.before as Keyed];
+  }
+  return { ...state, [c.collection]: next };
+}
+
+// The budget as it was at `at` (ISO timestamp), rebuilt by undoing every
+// logged change made after it. Edits from before the log existed can't be undone.
+export function stateAt(state: AppState, at: string): SnapshotData {
+  let out = snapshotData(state) as unknown as Obj;
+  sortedLog(state.log).forEach((e) => {
+    if (e.at <= at) return;
+    [...e.changes].reverse().forEach((c) => { out = unapply(out, c); });
+  });
+  return out as unknown as SnapshotData;
+}
+
+export function snapshotData(state: AppState): SnapshotData {
+  const data: AppState = { ...state };
+  delete data.log;
+  delete data.snapshots;
+  delete data.members;
+  return data;
+}
+
+// Put the budget back the way it was when the snapshot was taken. Who has
+// access, the log and the other snapshots are left as they are.
+export function restoreSnapshot(state: AppState, snapshot: Snapshot): AppState {
+  const { log, snapshots, members, version } = state;
+  const out: AppState = { ...stateAt(state, snapshot.at), version };
+  if (members) out.members = members;
+  if (log) out.log = log;
+  if (snapshots) out.snapshots = snapshots;
+  return out;
+}
+
+function formatValue(v: unknown): string {
+  if (v === undefined || v === null || v === "") return "—";
+  if (typeof v === "string") return `"${v}"`;
+  if (typeof v !== "object") return String(v);
+  if (Array.isArray(v)) return `${v.length} item${v.length === 1 ? "" : "s"}`;
+  const s = JSON.stringify(v);
+  return s.length > 60 ? `${s.slice(0, 57)}…` : s;
+}
+
+function isPlainObject(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// Short human-readable lines for one change, e.g. `allocations[2026-03]: 400 → 450`
+export function describeChange(c: AuditChange): string[] {
+  const kind = changeKind(c);
+  if (kind !== "changed") return [kind];
+  const label = c.field ?? c.collection;
+  if (isPlainObject(c.before) || isPlainObject(c.after)) {
+    const b = isPlainObject(c.before) ? c.before : {};
+    const a = isPlainObject(c.after) ? c.after : {};
+    const keys = [...new Set([...Object.keys(b), ...Object.keys(a)])].filter((k) => !deepEqual(b[k], a[k])).sort();
+    if (keys.length) return keys.map((k) => `${label}[${k}]: ${formatValue(b[k])} → ${formatValue(a[k])}`);
+  }
+  return [`${label}: ${formatValue(c.before)} → ${formatValue(c.after)}`];
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { isEncryptedBackup, planImport, readBackup } from "./backup";
+import { encryptJSON } from "./crypto";
+import { CURRENT_VERSION } from "./migrations";
+import type { AppState, Bucket, Txn } from "./types";
+
+const income: Bucket = { id: "income", name: "Income", allocations: {}, isIncome: true };
+const food: Bucket = { id: "food", name: "Food", allocations: { "2024-03": 400 } };
+const txn = (id: string, extra: Partial<Txn> = {}): Txn =>
+  ({ id, date: "2024-03-01", description: "Cafe", amount: -4.5, bucketId: null, accountId: "acct", ...extra });
+const acct = { id: "acct", name: "Checking", kind: "checking" as const, openingBalance: 0 };
+
+const current: AppState = {
+  version: CURRENT_VERSION,
+  buckets: [income, food],
+  txns: [txn("t1", { fingerprint: "fp-1" }), txn("t2")],
+  accounts: [acct],
+  members: [{ id: "m1", name: "Alex", role: "owner" }],
+  log: [{ id: "e1", at: "2024-03-01T10:00:00.000Z", by: null, label: "Edit", changes: [] }],
+};
+
+const backup: AppState = {
+  version: CURRENT_VERSION,
+  buckets: [income, { ...food, name: "Groceries" }, { id: "fun", name: "Fun", allocations: {} }],
+  // t9 is t1 imported again under another id
+  txns: [txn("t9", { fingerprint: "fp-1" }), txn("t3", { description: "Bakery" })],
+  accounts: [acct],
+  log: [{ id: "e2", at: "2024-02-01T10:00:00.000Z", by: null, label: "Edit", changes: [] }],
+};
+
+describe("planImport", () => {
+  it("replace makes the budget the backup's, keeping members and both logs", () => {
+    const { state, summary } = planImport(current, backup, "replace");
+    expect(state.buckets).toEqual(backup.buckets);
+    expect(state.txns).toEqual(backup.txns);
+    expect(state.members).toEqual(current.members);
+    expect(state.log?.map((e) => e.id)).toEqual(["e1", "e2"]);
+    expect(summary.buckets).toEqual({ added: 1, removed: 0, changed: 1, skipped: 0 });
+    expect(summary.txns).toEqual({ added: 2, removed: 2, changed: 0, skipped: 0 });
+  });
+
+  it("merge adds what isn't here yet, skipping txns already imported by fingerprint", () => {
+    const { state, summary } = planImport(current, backup, "merge");
+    expect(state.buckets.map((b) => b.name)).toEqual(["Income", "Food", "Fun"]);
+    expect(state.txns.map((t) => t.id)).toEqual(["t1", "t2", "t3"]);
+    expect(summary.buckets).toEqual({ added: 1, removed: 0, changed: 0, skipped: 2 });
+    expect(summary.txns).toEqual({ added: 1, removed: 0, changed: 0, skipped: 1 });
+    expect(summary.accounts).toEqual({ added: 0, removed: 0, changed: 0, skipped: 1 });
+  });
+});
+
+describe("readBackup", () => {
+  it("reads a plain JSON export through validation and migrations", async () => {
+    const { state } = await readBackup(JSON.stringify({ ...backup, version: 2 }));
+    expect(state?.version).toBe(CURRENT_VERSION);
+    expect(state?.txns.map((t) => t.id)).toEqual(["t9", "t3"]);
+  });
+
+  it("opens an encrypted backup with its passphrase, and only with it", async () => {
+    const text = await encryptJSON("correct horse", backup);
+    expect(isEncryptedBackup(text)).toBe(true);
+    await expect(readBackup(text)).rejects.toThrow("This backup is encrypted. Enter its passphrase.");
+    await expect(readBackup(text, "wrong")).rejects.toThrow("That passphrase doesn't open this backup.");
+    expect((await readBackup(text, "correct horse")).state?.buckets).toEqual(backup.buckets);
+  });
+
+  it("rejects a file that isn't JSON", async () => {
+    await expect(readBackup("not json")).rejects.toThrow("This file isn't valid JSON.");
+  });
+});
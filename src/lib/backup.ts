@@ -0,0 +1,111 @@
+// src/lib/backup.ts
+// Loading a JSON backup back in: what Export JSON writes, or the same state
+// encrypted with encryptJSON. The file goes through the same validation and
+// migrations as anything read from storage, and then either replaces the
+// budget or is merged into it. Records are matched by id (txns also by
+// import fingerprint); in a merge whatever is already here wins.
+import type { AppState, ID, Txn } from "./types";
+import { decryptJSON, payloadVersion } from "./crypto";
+import { deepEqual } from "./merge";
+import { snapshotData } from "./audit";
+import { prepareState } from "./migrations";
+import type { Prepared } from "./migrations";
+
+export type ImportMode = "replace" | "merge";
+// per collection; skipped = records in the backup that were already here
+export type CollectionSummary = { added: number; removed: number; changed: number; skipped: number };
+export type ImportPlan = { state: AppState; summary: Record<BackupCollection, CollectionSummary> };
+
+export const BACKUP_COLLECTIONS = ["buckets", "txns", "accounts", "rules", "recurring", "bankProfiles"] as const;
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number];
+
+type Keyed = { id: ID };
+
+function parse(text: string): unknown {
+  try { return JSON.parse(text); } catch { throw new Error("This file isn't valid JSON."); }
+}
+
+export function isEncryptedBackup(text: string): boolean {
+  const parsed = parse(text);
+  return typeof parsed === "object" && parsed !== null && "cipher" in parsed && payloadVersion(text) !== null;
+}
+
+// Throws for files that can't be opened at all; a file that opens but holds
+// no usable budget comes back with state null and its repair report.
+export async function readBackup(text: string, passphrase?: string): Promise<Prepared> {
+  let raw = parse(text);
+  if (isEncryptedBackup(text)) {
+    if (!passphrase) throw new Error("This backup is encrypted. Enter its passphrase.");
+    raw = await decryptJSON(passphrase, text).catch(() => {
+      throw new Error("That passphrase doesn't open this backup.");
+    });
+  }
+  return prepareState(raw, "The backup file");
+}
+
+function unionById<T extends Keyed>(current: T[] | undefined, incoming: T[] | undefined): T[] | undefined {
+  if (!incoming?.length) return current;
+  const ids = new Set((current ?? []).map((r) => r.id));
+  const added = incoming.filter((r) => !ids.has(r.id));
+  return added.length ? [...(current ?? []), ...added] : current;
+}
+
+// Records from `incoming` that aren't here yet, and how many were
+function addMissing<T extends Keyed>(current: T[], incoming: T[], isDuplicate: (r: T) => boolean = () => false): { list: T[]; skipped: number } {
+  const ids = new Set(current.map((r) => r.id));
+  const added = incoming.filter((r) => !ids.has(r.id) && !isDuplicate(r));
+  return { list: added.length ? [...current, ...added] : current, skipped: incoming.length - added.length };
+}
+
+function compare(current: Keyed[], next: Keyed[], skipped: number): CollectionSummary {
+  const before = new Map(current.map((r) => [r.id, r]));
+  const after = new Set(next.map((r) => r.id));
+  let added = 0, changed = 0;
+  next.forEach((r) => {
+    const old = before.get(r.id);
+    if (!old) added++;
+    else if (old !== r && !deepEqual(old, r)) changed++;
+  });
+  return { added, removed: current.filter((r) => !after.has(r.id)).length, changed, skipped };
+}
+
+function withoutEmpty(state: AppState): AppState {
+  const out = { ...state } as Record<string, unknown>;
+  Object.keys(out).forEach((k) => { if (out[k] === undefined) delete out[k]; });
+  return out as AppState;
+}
+
+// Replace: the budget becomes the backup's. Merge: the backup's buckets, txns
+// and settings that aren't here yet are added. Either way members stay as
+// they are, and the change logs and snapshots of both are kept.
+export function planImport(current: AppState, backup: AppState, mode: ImportMode): ImportPlan {
+  const journal = {
+    members: current.members,
+    log: unionById(current.log, backup.log),
+    snapshots: unionById(current.snapshots, backup.snapshots),
+  };
+  const skipped: Partial<Record<BackupCollection, number>> = {};
+  let state: AppState;
+  if (mode === "replace") {
+    state = withoutEmpty({ ...snapshotData(backup), ...journal, version: current.version ?? backup.version });
+  } else {
+    const fingerprints = new Set(current.txns.map((t) => t.fingerprint).filter(Boolean));
+    const merged: Record<string, unknown> = {};
+    BACKUP_COLLECTIONS.forEach((c) => {
+      const dup = c === "txns" ? (t: Keyed) => !!(t as Txn).fingerprint && fingerprints.has((t as Txn).fingerprint) : undefined;
+      const { list, skipped: n } = addMissing<Keyed>(current[c] ?? [], backup[c] ?? [], dup);
+      if (list.length || current[c]) merged[c] = list;
+      skipped[c] = n;
+    });
+    const dismissed = [...new Set([...(current.dismissedSubscriptions ?? []), ...(backup.dismissedSubscriptions ?? [])])];
+    state = withoutEmpty({
+      ...current,
+      ...(merged as Partial<AppState>),
+      dismissedSubscriptions: dismissed.length ? dismissed : undefined,
+      ...journal,
+    });
+  }
+  const summary = {} as Record<BackupCollection, CollectionSummary>;
+  BACKUP_COLLECTIONS.forEach((c) => { summary[c] = compare(current[c] ?? [], state[c] ?? [], skipped[c] ?? 0); });
+  return { state, summary };
+}
@@ -1,10 +1,29 @@
 /// <reference lib="dom" />
 // src/lib/crypto.ts
 // AES-GCM + PBKDF2 with passphrase-derived key (E2EE).
-// Stored shape: { v:1, salt, iv, cipher } where each value is base64.
+// Stored shape (v2): { v:2, kdf: { name, hash, iterations, salt }, enc: { name, iv }, cipher }
+// with salt/iv/cipher base64. The envelope names its own KDF parameters, so
+// DEFAULT_KDF can be strengthened without breaking older payloads.
+// v1 ({ v:1, salt, iv, cipher }, PBKDF2-SHA256 at 100k) is still read.
+// The cloud copy now uses v3 (data key + key slots, see Keyring below); v1/v2
+// rows are rewritten as v3 on the next save.
+// For many small values under one passphrase (the local lock), derive the key
+// once with deriveKeyFromSalt (the caller keeps salt + KdfParams) and use
+// encryptWithKey: { v:1, iv, cipher }.
 
 const g = globalThis as any;
 
+export type KdfParams = { name: "PBKDF2"; hash: "SHA-256"; iterations: number };
+
+// What v1 payloads (and local locks set up before KDFs were recorded) used.
+export const LEGACY_KDF: KdfParams = { name: "PBKDF2", hash: "SHA-256", iterations: 100_000 };
+// Used for everything newly encrypted.
+export const DEFAULT_KDF: KdfParams = { name: "PBKDF2", hash: "SHA-256", iterations: 100_000 };
+// Payloads name their own KDF, so a tampered one could ask for a weak key or a
+// derivation that never finishes. Nothing this app wrote is outside these.
+const MIN_ITERATIONS = LEGACY_KDF.iterations;
+const MAX_ITERATIONS = 10_000_000;
+
 /** Base64 encode/decode helpers that operate on Uint8Array */
 function b64Encode(bytes: Uint8Array): string {
   let bin = "";
@@ -18,11 +37,19 @@ function b64DecodeToBytes(b64: string): Uint8Array {
   return out;
 }
 
-async function deriveKey(passphrase: string, saltBytes: Uint8Array): Promise<CryptoKey> {
+function checkKdf(kdf: KdfParams): void {
+  if (kdf?.name !== "PBKDF2") throw new Error(`Unsupported key derivation: ${kdf?.name}`);
+  if (kdf.hash !== "SHA-256") throw new Error(`Unsupported key derivation hash: ${kdf.hash}`);
+  const n = kdf.iterations;
+  if (!Number.isInteger(n) || n < MIN_ITERATIONS || n > MAX_ITERATIONS) throw new Error(`Unsupported key derivation strength: ${n} iterations`);
+}
+
+async function deriveKey(passphrase: string, saltBytes: Uint8Array, kdf: KdfParams = DEFAULT_KDF): Promise<CryptoKey> {
+  checkKdf(kdf);
   const encText = new TextEncoder().encode(passphrase);
   const baseKey = await g.crypto.subtle.importKey("raw", encText, "PBKDF2", false, ["deriveKey"]);
   // TS-safe: keep params as any to avoid lib/DOM typing mismatches
-  const params = { name: "PBKDF2", salt: saltBytes, iterations: 100_000, hash: "SHA-256" } as any;
+  const params = { name: "PBKDF2", salt: saltBytes, iterations: kdf.iterations, hash: kdf.hash } as any;
   return g.crypto.subtle.deriveKey(
     params,
     baseKey,
@@ -37,7 +64,7 @@ export async function encryptJSON(passphrase: string, obj: unknown): Promise<str
   const salt: Uint8Array = g.crypto.getRandomValues(new Uint8Array(16));
   const iv: Uint8Array   = g.crypto.getRandomValues(new Uint8Array(12));
 
-  const key = await deriveKey(passphrase, salt);
+  const key = await deriveKey(passphrase, salt, DEFAULT_KDF);
 
   const plaintext = new TextEncoder().encode(JSON.stringify(obj));
   // TS-safe: cast params to any so iv is accepted in all environments
@@ -46,24 +73,214 @@ export async function encryptJSON(passphrase: string, obj: unknown): Promise<str
 
   // Convert outputs to base64 strings (store as JSON)
   return JSON.stringify({
-    v: 1,
-    salt: b64Encode(salt),
-    iv: b64Encode(iv),
+    v: 2,
+    kdf: { ...DEFAULT_KDF, salt: b64Encode(salt) },
+    enc: { name: "AES-GCM", iv: b64Encode(iv) },
     cipher: b64Encode(new Uint8Array(cipherBuf)),
   });
 }
 
 export async function decryptJSON(passphrase: string, payload: string): Promise<any> {
   const parsed = JSON.parse(payload);
-  if (!parsed || parsed.v !== 1) throw new Error("Unsupported payload");
+  if (parsed?.v === 3) return decryptWithKeyring((await openKeyring(payload, passphrase)).keyring, payload);
+  let kdf: KdfParams, salt: string, iv: string;
+  if (parsed?.v === 1) {
+    [kdf, salt, iv] = [LEGACY_KDF, parsed.salt, parsed.iv];
+  } else if (parsed?.v === 2) {
+    if (parsed.enc?.name !== "AES-GCM") throw new Error(`Unsupported cipher: ${parsed.enc?.name}`);
+    const { salt: kdfSalt, ...params } = parsed.kdf ?? {};
+    [kdf, salt, iv] = [params, kdfSalt, parsed.enc.iv];
+  } else {
+    throw new Error("Unsupported payload");
+  }
 
-  const saltBytes   = b64DecodeToBytes(parsed.salt);
-  const ivBytes     = b64DecodeToBytes(parsed.iv);
+  const saltBytes   = b64DecodeToBytes(salt);
+  const ivBytes     = b64DecodeToBytes(iv);
   const cipherBytes = b64DecodeToBytes(parsed.cipher);
 
-  const key = await deriveKey(passphrase, saltBytes);
+  const key = await deriveKey(passphrase, saltBytes, kdf);
   const decParams = { name: "AES-GCM", iv: ivBytes } as any;
   const plainBuf: ArrayBuffer = await g.crypto.subtle.decrypt(decParams, key, cipherBytes);
   const text = new TextDecoder().decode(plainBuf);
   return JSON.parse(text);
 }
+
+export function randomSalt(): string {
+  return b64Encode(g.crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export async function deriveKeyFromSalt(passphrase: string, salt: string, kdf: KdfParams = DEFAULT_KDF): Promise<CryptoKey> {
+  return deriveKey(passphrase, b64DecodeToBytes(salt), kdf);
+}
+
+export async function encryptWithKey(key: CryptoKey, obj: unknown): Promise<string> {
+  const iv: Uint8Array = g.crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(obj));
+  const cipherBuf: ArrayBuffer = await g.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+  return JSON.stringify({ v: 1, iv: b64Encode(iv), cipher: b64Encode(new Uint8Array(cipherBuf)) });
+}
+
+// Rejects when the key is wrong (AES-GCM authentication fails).
+export async function decryptWithKey(key: CryptoKey, payload: string): Promise<unknown> {
+  const parsed = JSON.parse(payload);
+  if (!parsed || parsed.v !== 1) throw new Error("Unsupported payload");
+  const plainBuf: ArrayBuffer = await g.crypto.subtle.decrypt({ name: "AES-GCM", iv: b64DecodeToBytes(parsed.iv) }, key, b64DecodeToBytes(parsed.cipher));
+  return JSON.parse(new TextDecoder().decode(plainBuf));
+}
+
+// --- Data-key envelopes (v3) ---
+// The state is encrypted with a random data key, which is stored wrapped once
+// per secret that may open it ("slots"): the household passphrase, each
+// member's own passphrase and, optionally, a recovery key. Each slot has a key
+// check value, so a wrong secret is recognized up front, and changing a secret
+// only rewraps the key.
+// { v:3, slots: { passphrase, members?: { [memberId]: slot }, recovery? }, enc: { name, iv }, cipher }
+// slot = { kdf: { name, hash, iterations, salt }, check, wrapped: { iv, key } }
+export type KeySlot = { kdf: KdfParams & { salt: string }; check: string; wrapped: { iv: string; key: string } };
+export type KeySlots = { passphrase: KeySlot; members?: Record<string, KeySlot>; recovery?: KeySlot };
+export type Keyring = { dataKey: CryptoKey; slots: KeySlots };
+// memberId = whose passphrase opened it; null = the household passphrase
+export type OpenedKeyring = { keyring: Keyring; memberId: string | null };
+
+const WRONG_SECRET = "Wrong passphrase or recovery key";
+
+export function isWrongSecret(error: unknown): boolean {
+  return error instanceof Error && error.message === WRONG_SECRET;
+}
+
+// One PBKDF2 run gives both the wrapping key and the check value.
+async function slotKeys(secret: string, salt: Uint8Array, kdf: KdfParams): Promise<{ kek: CryptoKey; check: string }> {
+  checkKdf(kdf);
+  const baseKey = await g.crypto.subtle.importKey("raw", new TextEncoder().encode(secret), "PBKDF2", false, ["deriveBits"]);
+  const bits = new Uint8Array(await g.crypto.subtle.deriveBits({ name: "PBKDF2", salt, iterations: kdf.iterations, hash: kdf.hash }, baseKey, 512));
+  const kek = await g.crypto.subtle.importKey("raw", bits.slice(0, 32), "AES-GCM", false, ["wrapKey", "unwrapKey"]);
+  const digest = new Uint8Array(await g.crypto.subtle.digest("SHA-256", bits.slice(32)));
+  return { kek, check: b64Encode(digest.slice(0, 9)) };
+}
+
+async function makeSlot(secret: string, dataKey: CryptoKey): Promise<KeySlot> {
+  const salt: Uint8Array = g.crypto.getRandomValues(new Uint8Array(16));
+  const iv: Uint8Array = g.crypto.getRandomValues(new Uint8Array(12));
+  const { kek, check } = await slotKeys(secret, salt, DEFAULT_KDF);
+  const wrapped = new Uint8Array(await g.crypto.subtle.wrapKey("raw", dataKey, kek, { name: "AES-GCM", iv }));
+  return { kdf: { ...DEFAULT_KDF, salt: b64Encode(salt) }, check, wrapped: { iv: b64Encode(iv), key: b64Encode(wrapped) } };
+}
+
+async function slotMatches(secret: string, slot: KeySlot): Promise<CryptoKey | null> {
+  const { salt, ...kdf } = slot.kdf;
+  const { kek, check } = await slotKeys(secret, b64DecodeToBytes(salt), kdf);
+  return check === slot.check ? kek : null;
+}
+
+// The passphrase slot first, then each member's.
+async function matchPassphrase(slots: KeySlots, secret: string): Promise<{ slot: KeySlot; kek: CryptoKey; memberId: string | null } | null> {
+  const candidates: [string | null, KeySlot][] = [[null, slots.passphrase], ...Object.entries(slots.members ?? {})];
+  for (const [memberId, slot] of candidates) {
+    const kek = await slotMatches(secret, slot);
+    if (kek) return { slot, kek, memberId };
+  }
+  return null;
+}
+
+async function unwrapDataKey(slot: KeySlot, kek: CryptoKey): Promise<CryptoKey> {
+  return g.crypto.subtle.unwrapKey(
+    "raw", b64DecodeToBytes(slot.wrapped.key), kek, { name: "AES-GCM", iv: b64DecodeToBytes(slot.wrapped.iv) },
+    { name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"],
+  );
+}
+
+export async function createKeyring(passphrase: string): Promise<Keyring> {
+  const dataKey: CryptoKey = await g.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  return { dataKey, slots: { passphrase: await makeSlot(passphrase, dataKey) } };
+}
+
+export function payloadVersion(payload: string): number | null {
+  try { return JSON.parse(payload)?.v ?? null; } catch { return null; }
+}
+
+function parseSlots(payload: string): KeySlots {
+  const parsed = JSON.parse(payload);
+  if (parsed?.v !== 3 || !parsed.slots?.passphrase) throw new Error("Unsupported payload");
+  return parsed.slots;
+}
+
+// With the household passphrase or a member's. Throws a wrong-secret error
+// (see isWrongSecret) when it fits no slot.
+export async function openKeyring(payload: string, passphrase: string): Promise<OpenedKeyring> {
+  const slots = parseSlots(payload);
+  const match = await matchPassphrase(slots, passphrase);
+  if (!match) throw new Error(WRONG_SECRET);
+  return { keyring: { dataKey: await unwrapDataKey(match.slot, match.kek), slots }, memberId: match.memberId };
+}
+
+export async function openWithRecoveryKey(payload: string, recoveryKey: string): Promise<Keyring> {
+  const slots = parseSlots(payload);
+  if (!slots.recovery) throw new Error("This household has no recovery key");
+  const kek = await slotMatches(normalizeRecoveryKey(recoveryKey), slots.recovery);
+  if (!kek) throw new Error(WRONG_SECRET);
+  return { dataKey: await unwrapDataKey(slots.recovery, kek), slots };
+}
+
+// Would this passphrase open a slot already (and so be ambiguous as a new one)?
+export async function passphraseInUse(keyring: Keyring, passphrase: string): Promise<boolean> {
+  return !!(await matchPassphrase(keyring.slots, passphrase));
+}
+
+// Rewrap for a new household passphrase (memberId null) or a member's own.
+export async function withPassphrase(keyring: Keyring, passphrase: string, memberId: string | null = null): Promise<Keyring> {
+  const slot = await makeSlot(passphrase, keyring.dataKey);
+  const slots = memberId === null
+    ? { ...keyring.slots, passphrase: slot }
+    : { ...keyring.slots, members: { ...keyring.slots.members, [memberId]: slot } };
+  return { ...keyring, slots };
+}
+
+export function withoutMember(keyring: Keyring, memberId: string): Keyring {
+  const members = { ...keyring.slots.members };
+  delete members[memberId];
+  return { ...keyring, slots: { ...keyring.slots, members } };
+}
+
+export async function withRecoveryKey(keyring: Keyring, recoveryKey: string): Promise<Keyring> {
+  return { ...keyring, slots: { ...keyring.slots, recovery: await makeSlot(normalizeRecoveryKey(recoveryKey), keyring.dataKey) } };
+}
+
+export async function encryptWithKeyring(keyring: Keyring, obj: unknown): Promise<string> {
+  const iv: Uint8Array = g.crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(obj));
+  const cipherBuf: ArrayBuffer = await g.crypto.subtle.encrypt({ name: "AES-GCM", iv }, keyring.dataKey, plaintext);
+  return JSON.stringify({ v: 3, slots: keyring.slots, enc: { name: "AES-GCM", iv: b64Encode(iv) }, cipher: b64Encode(new Uint8Array(cipherBuf)) });
+}
+
+export async function decryptWithKeyring(keyring: Keyring, payload: string): Promise<unknown> {
+  const parsed = JSON.parse(payload);
+  if (parsed?.v !== 3) throw new Error("Unsupported payload");
+  if (parsed.enc?.name !== "AES-GCM") throw new Error(`Unsupported cipher: ${parsed.enc?.name}`);
+  const plainBuf: ArrayBuffer = await g.crypto.subtle.decrypt({ name: "AES-GCM", iv: b64DecodeToBytes(parsed.enc.iv) }, keyring.dataKey, b64DecodeToBytes(parsed.cipher));
+  return JSON.parse(new TextDecoder().decode(plainBuf));
+}
+
+// Recovery keys: 160 random bits as 32 Crockford base32 characters in groups of
+// four. Case, dashes and look-alike letters don't matter when typing one back.
+const RECOVERY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+export function generateRecoveryKey(): string {
+  const bytes: Uint8Array = g.crypto.getRandomValues(new Uint8Array(20));
+  let out = "";
+  let value = 0;
+  let bits = 0;
+  for (const b of bytes) {
+    value = (value << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      out += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    value &= (1 << bits) - 1;
+  }
+  return out.match(/.{4}/g)!.join("-");
+}
+
+export function normalizeRecoveryKey(key: string): string {
+  return key.toUpperCase().replace(/[^0-9A-Z]/g, "").replace(/O/g, "0").replace(/[IL]/g, "1");
+}
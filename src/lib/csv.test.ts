@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { createCSVTokenizer, detectDelimiter, parseAmount, parseDate, readCSV } from "./csv";
+
+describe("readCSV", () => {
+  it("keeps newlines and doubled quotes inside quoted fields", () => {
+    const { rows, lines, errors } = readCSV('Date,Description,Amount\n2024-03-01,"Cafe\nCorner ""Joe\'s""",-4.50\n2024-03-02,Rent,-1200\n');
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      ["Date", "Description", "Amount"],
+      ["2024-03-01", 'Cafe\nCorner "Joe\'s"', "-4.50"],
+      ["2024-03-02", "Rent", "-1200"],
+    ]);
+    // line numbers count the newline inside the quotes
+    expect(lines).toEqual([1, 2, 4]);
+  });
+
+  it("reads CRLF line endings and skips blank lines", () => {
+    expect(readCSV("a,b\r\n\r\n1,2\r\n").rows).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("gives the same records however the text is chunked", () => {
+    const text = 'x,"multi\r\nline",y\r\n1,2,3';
+    const tok = createCSVTokenizer(",");
+    const records = [...text].flatMap((c) => tok.push(c)).concat(tok.end());
+    expect(records.map((r) => r.fields)).toEqual(readCSV(text).rows);
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("picks semicolons and tabs, ignoring delimiters inside quotes", () => {
+    expect(detectDelimiter("Datum;Omschrijving;Bedrag\n01-03-2024;Bakker;-4,50")).toBe(";");
+    expect(detectDelimiter("Date\tDescription\tAmount\n")).toBe("\t");
+    expect(detectDelimiter('"a;b;c",d,e\n')).toBe(",");
+    expect(readCSV("a;b\n1,5;2").rows).toEqual([["a", "b"], ["1,5", "2"]]);
+  });
+});
+
+describe("parseAmount", () => {
+  it("reads European decimals, accounting negatives and trailing minus signs", () => {
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("1,234.56")).toBe(1234.56);
+    expect(parseAmount("(12.00)")).toBe(-12);
+    expect(parseAmount("12.00-")).toBe(-12);
+    expect(parseAmount("$ -5")).toBe(-5);
+    expect(parseAmount("abc")).toBeNull();
+  });
+});
+
+describe("parseDate", () => {
+  it("reads slashed dates month-first, or day-first when the first number can't be a month", () => {
+    expect(parseDate("03/25/2024")).toBe("2024-03-25");
+    expect(parseDate("25/03/2024")).toBe("2024-03-25");
+    expect(parseDate("04/03/2024")).toBe("2024-04-03");
+    expect(parseDate("04/03/2024", "DD/MM/YYYY")).toBe("2024-03-04");
+    expect(parseDate("25/03/2024", "MM/DD/YYYY")).toBeNull();
+    expect(parseDate("2024-03-25")).toBe("2024-03-25");
+  });
+});
@@ -0,0 +1,291 @@
+// src/lib/csv.ts
+// CSV statement parsing: text -> records (RFC 4180) -> column mapping (bank profile) -> parsed txns.
+import type { BankProfile, ColumnRole, CSVDelimiter, DateFormat, DecimalSeparator } from "./types";
+
+export type ParsedRow = {
+  date: string;
+  description: string;
+  amount: number;
+  fitId?: string;   // OFX only
+  payee?: string;   // OFX / QIF only
+  memo?: string;    // OFX / QIF only
+};
+export type ImportMapping = Omit<BankProfile, "id" | "name">;
+export type ImportIssue = { line: number; message: string; raw?: string };
+
+/* ---------- Tokenizer ---------- */
+
+export type CSVRecord = { fields: string[]; line: number };
+
+// Incremental RFC 4180 tokenizer. Feed text in chunks with push(); records are
+// returned as soon as they are complete, so quoted fields may span chunks and
+// lines. Doubled quotes inside a quoted field are an escaped quote. Unquoted
+// fields are trimmed; quoted fields are kept verbatim.
+export function createCSVTokenizer(delimiter: CSVDelimiter = ",") {
+  let field = "";
+  let fields: string[] = [];
+  let quoted = false;        // current field was quoted
+  let inQuotes = false;      // inside a quoted section
+  let quotePending = false;  // saw '"' inside quotes; next char decides escape vs close
+  let skipLF = false;        // previous char was '\r'
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+  const errors: ImportIssue[] = [];
+
+  function endField() {
+    fields.push(quoted ? field : field.trim());
+    field = "";
+    quoted = false;
+  }
+  function endRecord(out: CSVRecord[]) {
+    endField();
+    // blank lines are not records
+    if (!(fields.length === 1 && fields[0] === "")) out.push({ fields, line: recordLine });
+    fields = [];
+  }
+
+  function push(chunk: string): CSVRecord[] {
+    const out: CSVRecord[] = [];
+    for (let i = 0; i < chunk.length; i++) {
+      let c = chunk[i];
+      if (first) { first = false; if (c === "\uFEFF") continue; }
+      if (skipLF) { skipLF = false; if (c === "\n") continue; }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (c === '"') { field += '"'; continue; }
+          inQuotes = false; // closing quote; fall through with c
+        } else {
+          if (c === '"') { quotePending = true; continue; }
+          if (c === "\r") { skipLF = true; c = "\n"; }
+          if (c === "\n") line++;
+          field += c;
+          continue;
+        }
+      }
+
+      if (c === '"' && !quoted && field.trim() === "") {
+        field = "";
+        quoted = true;
+        inQuotes = true;
+        continue;
+      }
+      if (c === delimiter) { endField(); continue; }
+      if (c === "\r" || c === "\n") {
+        if (c === "\r") skipLF = true;
+        endRecord(out);
+        line++;
+        recordLine = line;
+        continue;
+      }
+      // text after a closing quote ("abc"def) is kept, as most spreadsheet apps do
+      field += c;
+    }
+    return out;
+  }
+
+  function end(): CSVRecord[] {
+    const out: CSVRecord[] = [];
+    if (inQuotes && !quotePending) {
+      errors.push({ line: recordLine, message: "Unterminated quoted field" });
+    }
+    inQuotes = false;
+    quotePending = false;
+    if (field !== "" || quoted || fields.length) endRecord(out);
+    return out;
+  }
+
+  return { push, end, errors };
+}
+
+// Pick the delimiter that appears most often (outside quotes) in the first line.
+export function detectDelimiter(text: string): CSVDelimiter {
+  const counts: Record<CSVDelimiter, number> = { ",": 0, ";": 0, "\t": 0 };
+  let inQuotes = false;
+  for (let i = 0; i < text.length && i < 4096; i++) {
+    const c = text[i];
+    if (c === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (c === "\n" || c === "\r")) break;
+    else if (!inQuotes && c in counts) counts[c as CSVDelimiter]++;
+  }
+  return (Object.keys(counts) as CSVDelimiter[]).reduce((a, b) => (counts[b] > counts[a] ? b : a), ",");
+}
+
+export type CSVTable = { rows: string[][]; lines: number[]; delimiter: CSVDelimiter; errors: ImportIssue[] };
+
+export function readCSV(text: string, delimiter?: CSVDelimiter): CSVTable {
+  const delim = delimiter ?? detectDelimiter(text.replace(/^\uFEFF/, ""));
+  const tok = createCSVTokenizer(delim);
+  const records = [...tok.push(text), ...tok.end()];
+  return { rows: records.map((r) => r.fields), lines: records.map((r) => r.line), delimiter: delim, errors: tok.errors };
+}
+
+/* ---------- Values ---------- */
+
+function pad2(n: number) { return String(n).padStart(2, "0"); }
+function fullYear(y: number) { return y < 100 ? 2000 + y : y; }
+
+function toISO(y: number, m: number, d: number): string | null {
+  const dt = new Date(y, m - 1, d);
+  if (dt.getFullYear() !== y || dt.getMonth() !== m - 1 || dt.getDate() !== d) return null;
+  return `${y}-${pad2(m)}-${pad2(d)}`;
+}
+
+// Returns YYYY-MM-DD, or null when the value can't be read in the given format.
+export function parseDate(raw: string, format: DateFormat = "auto"): string | null {
+  const s = raw.trim();
+  if (!s) return null;
+  const iso = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:$|[T\s])/);
+  const dmy = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})(?:$|\s)/);
+  if (format === "YYYY-MM-DD" || (format === "auto" && iso)) {
+    return iso ? toISO(+iso[1], +iso[2], +iso[3]) : null;
+  }
+  if (format === "MM/DD/YYYY" || format === "DD/MM/YYYY") {
+    if (!dmy) return null;
+    const [a, b] = [+dmy[1], +dmy[2]];
+    const [month, day] = format === "MM/DD/YYYY" ? [a, b] : [b, a];
+    return toISO(fullYear(+dmy[3]), month, day);
+  }
+  // auto: US month-first for slashed dates unless the first number can't be a
+  // month ("25/03/2024"), then anything Date understands ("Mar 4, 2025")
+  if (dmy) {
+    const [a, b] = [+dmy[1], +dmy[2]];
+    return a > 12 ? toISO(fullYear(+dmy[3]), b, a) : toISO(fullYear(+dmy[3]), a, b);
+  }
+  const dt = new Date(s);
+  if (isNaN(dt.getTime())) return null;
+  return toISO(dt.getFullYear(), dt.getMonth() + 1, dt.getDate());
+}
+
+// Parses "1,234.56", "1.234,56", "(12.00)", "12.00-", "$ -5" ... Returns null when
+// the value isn't a number. With decimal "auto", the right-most of "." / "," is
+// the decimal mark when both appear; a lone "," is decimal only before 1–2 digits.
+export function parseAmount(raw: string, decimal: DecimalSeparator = "auto"): number | null {
+  // drop whitespace, currency symbols and ISO codes ("USD 12.00", "12,00 €")
+  let s = raw.trim().replace(/\s+/g, "").replace(/[$€£¥]/g, "").replace(/^[A-Z]{3}|[A-Z]{3}$/i, "");
+  if (!s) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) { negative = true; s = s.slice(1, -1); }
+  if (s.endsWith("-")) { negative = true; s = s.slice(0, -1); }
+  if (s.startsWith("-")) { negative = !negative; s = s.slice(1); }
+  else if (s.startsWith("+")) s = s.slice(1);
+  if (!/^[\d.,]+$/.test(s) || !/\d/.test(s)) return null;
+
+  let dec = decimal;
+  if (dec === "auto") {
+    const lastDot = s.lastIndexOf(".");
+    const lastComma = s.lastIndexOf(",");
+    if (lastDot >= 0 && lastComma >= 0) dec = lastComma > lastDot ? "," : ".";
+    else if (lastComma >= 0) dec = /,\d{1,2}$/.test(s) && s.indexOf(",") === lastComma ? "," : ".";
+    else dec = ".";
+  }
+  const thousands = dec === "," ? "." : ",";
+  const normalized = s.split(thousands).join("").replace(dec, ".");
+  if (!/^\d*\.?\d*$/.test(normalized)) return null;
+  const n = Number(normalized);
+  if (isNaN(n)) return null;
+  return negative ? -n : n;
+}
+
+/* ---------- Mapping ---------- */
+
+export function normalizeHeader(row: string[]): string[] {
+  return row.map((c) => c.trim().toLowerCase().replace(/\s+/g, " "));
+}
+
+// A saved profile applies when its header row matches the file's first row exactly.
+export function detectProfile(rows: string[][], profiles: BankProfile[]): BankProfile | null {
+  if (!rows.length) return null;
+  const header = normalizeHeader(rows[0]).join("|");
+  return profiles.find((p) => p.hasHeader && p.header.join("|") === header) ?? null;
+}
+
+function guessRole(header: string, taken: Set<ColumnRole>): ColumnRole {
+  const claim = (role: ColumnRole): ColumnRole => {
+    if (taken.has(role)) return "ignore";
+    taken.add(role);
+    return role;
+  };
+  if (/balance/.test(header)) return "ignore";
+  if (/date/.test(header)) return claim("date");
+  if (/debit|withdrawal|money out/.test(header)) return claim("debit");
+  if (/credit|deposit|money in/.test(header)) return claim("credit");
+  if (/amount/.test(header)) return claim("amount");
+  if (/desc|payee|merchant|name|narrative|details/.test(header)) return claim("description");
+  return "ignore";
+}
+
+// Best-effort mapping for a file we have no profile for. Without a
+// recognizable header we fall back to the classic date, description, amount.
+export function guessMapping(table: CSVTable): ImportMapping {
+  const first = table.rows[0] || [];
+  const header = normalizeHeader(first);
+  const hasHeader = header.some((h) => /date|desc|amount|debit|credit|payee/.test(h));
+  let columns: ColumnRole[];
+  if (hasHeader) {
+    const taken = new Set<ColumnRole>();
+    columns = header.map((h) => guessRole(h, taken));
+  } else {
+    columns = first.map((_, i) => (["date", "description", "amount"] as ColumnRole[])[i] ?? "ignore");
+  }
+  return {
+    header: hasHeader ? header : [], hasHeader, columns,
+    dateFormat: "auto", sign: "negative-expense", delimiter: table.delimiter, decimal: "auto",
+  };
+}
+
+export function mappingIsUsable(m: ImportMapping): boolean {
+  const roles = new Set(m.columns);
+  return roles.has("date") && roles.has("description") && (roles.has("amount") || roles.has("debit") || roles.has("credit"));
+}
+
+// Apply a mapping to a table. Multiple description columns (e.g. payee + memo)
+// are joined; debit columns are always expenses and credit columns income.
+// Rows that can't be read are reported rather than guessed at.
+export function rowsToParsed(table: CSVTable, m: ImportMapping): { rows: ParsedRow[]; errors: ImportIssue[] } {
+  const out: ParsedRow[] = [];
+  const errors: ImportIssue[] = [...table.errors];
+  const start = m.hasHeader ? 1 : 0;
+  const idx = (role: ColumnRole) => m.columns.map((r, i) => (r === role ? i : -1)).filter((i) => i >= 0);
+  const [dateCol] = idx("date");
+  const descCols = idx("description");
+  const amountCols = idx("amount");
+  const debitCols = idx("debit");
+  const creditCols = idx("credit");
+  const decimal = m.decimal ?? "auto";
+
+  for (let r = start; r < table.rows.length; r++) {
+    const cols = table.rows[r];
+    const line = table.lines[r] ?? r + 1;
+    const raw = cols.join(table.delimiter === "\t" ? " | " : table.delimiter);
+    const fail = (message: string) => errors.push({ line, message, raw });
+
+    const rawDate = cols[dateCol] ?? "";
+    const date = parseDate(rawDate, m.dateFormat);
+    if (!date) { fail(rawDate.trim() ? `Unrecognized date "${rawDate}"` : "Missing date"); continue; }
+
+    const description = descCols.map((i) => (cols[i] ?? "").replace(/\s*\n\s*/g, " ")).filter(Boolean).join(" ");
+    let amount = 0;
+    let sawAmount = false;
+    let badAmount: string | null = null;
+    const read = (i: number, apply: (n: number) => void) => {
+      const v = cols[i] ?? "";
+      if (!v.trim()) return;
+      const n = parseAmount(v, decimal);
+      if (n === null) { badAmount = v; return; }
+      sawAmount = true;
+      apply(n);
+    };
+    amountCols.forEach((i) => read(i, (n) => { amount += n * (m.sign === "positive-expense" ? -1 : 1); }));
+    debitCols.forEach((i) => read(i, (n) => { amount -= Math.abs(n); }));
+    creditCols.forEach((i) => read(i, (n) => { amount += Math.abs(n); }));
+    if (badAmount !== null) { fail(`Unrecognized amount "${badAmount}"`); continue; }
+    if (!sawAmount) { fail("Missing amount"); continue; }
+
+    out.push({ date, description, amount: Math.round(amount * 100) / 100 });
+  }
+  errors.sort((a, b) => a.line - b.line);
+  return { rows: out, errors };
+}
@@ -0,0 +1,24 @@
+// src/lib/dates.ts
+// Calendar arithmetic on ISO dates (YYYY-MM-DD), done in UTC day numbers so
+// time zones and DST never shift a date.
+
+function pad(n: number) { return String(n).padStart(2, "0"); }
+export function toISO(y: number, m: number, d: number) { return `${y}-${pad(m)}-${pad(d)}`; }
+
+export function dayNumber(iso: string): number {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / 86400000);
+}
+
+export function fromDayNumber(n: number): string {
+  const dt = new Date(n * 86400000);
+  return toISO(dt.getUTCFullYear(), dt.getUTCMonth() + 1, dt.getUTCDate());
+}
+
+export function addDays(iso: string, days: number): string {
+  return fromDayNumber(dayNumber(iso) + days);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
@@ -0,0 +1,87 @@
+// src/lib/dedupe.ts
+// Stable transaction fingerprints so overlapping statements can be re-imported.
+// fingerprint = hash(date | amount | normalized description) + "-" + occurrence,
+// where occurrence counts identical rows within the same file. Two genuine
+// $4.50 coffees on the same day keep distinct fingerprints (…-0, …-1).
+import type { ID, Txn } from "./types";
+
+export function normalizeDescription(desc: string): string {
+  return desc.toLowerCase().replace(/[^a-z0-9]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+// 32-bit FNV-1a, hex encoded. Not cryptographic; only needs to be stable.
+function hashString(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+function fingerprintBase(t: Pick<Txn, "date" | "amount" | "description">): string {
+  return hashString(`${t.date}|${t.amount.toFixed(2)}|${normalizeDescription(t.description)}`);
+}
+
+// Fill in missing fingerprints. Txns are treated as one file: the
+// occurrence index restarts at 0 for every call.
+export function assignFingerprints(txns: Txn[]): Txn[] {
+  const seen: Record<string, number> = {};
+  return txns.map((t) => {
+    if (t.fingerprint) return t;
+    const base = fingerprintBase(t);
+    const occurrence = seen[base] ?? 0;
+    seen[base] = occurrence + 1;
+    return { ...t, fingerprint: `${base}-${occurrence}` };
+  });
+}
+
+export type ImportStatus = "new" | "duplicate" | "conflict";
+export type ImportRow = { txn: Txn; status: ImportStatus; match?: Txn; include: boolean };
+
+// Compare freshly parsed (fingerprinted) txns against what we already have.
+// Banks only promise a FITID is unique within one account, so FITIDs are only
+// matched against txns already in `accountId`, the account being imported into
+// (none = not known yet: fingerprints decide alone).
+//  - duplicate: same FITID in the same account (when both sides have one) or
+//               same fingerprint already stored (skipped by default)
+//  - conflict:  no fingerprint match, but an existing txn has the same date and
+//               amount with a different description (flagged, skipped by default)
+//  - new:       everything else (imported by default)
+export function classifyImport(incoming: Txn[], existing: Txn[], accountId?: ID): ImportRow[] {
+  const byFingerprint = new Map<string, Txn>();
+  const byFitId = new Map<string, Txn>();
+  const fitKey = (account: ID, fitId: string) => `${account}|${fitId}`;
+  existing.forEach((t) => {
+    if (t.fingerprint) byFingerprint.set(t.fingerprint, t);
+    if (t.fitId && t.accountId) byFitId.set(fitKey(t.accountId, t.fitId), t);
+  });
+
+  // Within a known account the bank's own id is authoritative. Fingerprints
+  // decide for txns where one side has no FITID (e.g. the same account imported
+  // via CSV), or when there's no account to match FITIDs in.
+  const exactMatch = (t: Txn): Txn | undefined => {
+    const byBank = t.fitId && accountId ? byFitId.get(fitKey(accountId, t.fitId)) : undefined;
+    if (byBank) return byBank;
+    const m = t.fingerprint ? byFingerprint.get(t.fingerprint) : undefined;
+    if (m && accountId && t.fitId && m.fitId) return undefined;
+    return m;
+  };
+
+  // existing txns already claimed by an exact match can't also be a conflict
+  const claimed = new Set<string>();
+  incoming.forEach((t) => {
+    const m = exactMatch(t);
+    if (m) claimed.add(m.id);
+  });
+
+  return incoming.map((t) => {
+    const dup = exactMatch(t);
+    if (dup) return { txn: t, status: "duplicate", match: dup, include: false };
+    const near = existing.find((e) =>
+      !claimed.has(e.id) && e.date === t.date && e.amount === t.amount &&
+      normalizeDescription(e.description) !== normalizeDescription(t.description));
+    if (near) return { txn: t, status: "conflict", match: near, include: false };
+    return { txn: t, status: "new", include: true };
+  });
+}
@@ -0,0 +1,55 @@
+// src/lib/goals.ts
+// Sinking funds: how much to put into a goal bucket each month to reach its
+// target on time, and whether the household is keeping up.
+import type { Bucket, GoalBucket } from "./types";
+
+export type GoalStatus = "reached" | "on-track" | "behind" | "overdue";
+
+export type GoalProgress = {
+  saved: number;       // balance in the bucket right now
+  monthsLeft: number;  // including the given month; 0 once the target month has passed
+  required: number;    // contribution needed this month to stay on schedule
+  progress: number;    // 0..1
+  status: GoalStatus;
+};
+
+function cents(n: number) { return Math.round(n * 100) / 100; }
+
+export function isGoalBucket(b: Bucket): b is GoalBucket {
+  return !!b.goal && b.goal.target > 0 && /^\d{4}-\d{2}$/.test(b.goal.targetDate);
+}
+
+// Months from `from` through `to` inclusive (monthKeys); 0 when `to` is earlier.
+export function monthsRemaining(from: string, to: string): number {
+  const [fy, fm] = from.split("-").map(Number);
+  const [ty, tm] = to.split("-").map(Number);
+  return Math.max(0, (ty - fy) * 12 + (tm - fm) + 1);
+}
+
+// Even split of what is still missing at the start of `month` over the months left.
+export function requiredContribution(goal: GoalBucket["goal"], month: string, startBalance: number): number {
+  const left = monthsRemaining(month, goal.targetDate);
+  const missing = goal.target - startBalance;
+  if (left === 0 || missing <= 0) return 0;
+  return Math.ceil((missing / left) * 100) / 100;
+}
+
+// `startBalance` is the carry-in for `month`; `saved` the current balance
+// (carry-in + this month's allocation + assigned txns).
+export function goalProgress(bucket: GoalBucket, month: string, startBalance: number, saved: number): GoalProgress {
+  const { target, targetDate } = bucket.goal;
+  const monthsLeft = monthsRemaining(month, targetDate);
+  const required = requiredContribution(bucket.goal, month, startBalance);
+  const allocated = bucket.allocations[month] || 0;
+  let status: GoalStatus;
+  if (saved >= target) status = "reached";
+  else if (monthsLeft === 0) status = "overdue";
+  else status = allocated + 0.005 >= required ? "on-track" : "behind";
+  return {
+    saved: cents(saved),
+    monthsLeft,
+    required,
+    progress: Math.min(1, Math.max(0, saved / target)),
+    status,
+  };
+}
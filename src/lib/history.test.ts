@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { emptyHistory, record, reapply, revert, stepBack, stepForward } from "./history";
+import type { AppState, Bucket, Txn } from "./types";
+
+const food: Bucket = { id: "food", name: "Food", allocations: { "2024-03": 400 } };
+const coffee: Txn = { id: "t1", date: "2024-03-02", description: "Cafe", amount: -4.5, bucketId: null };
+const start: AppState = { buckets: [food], txns: [coffee] };
+
+const rename = (s: AppState, name: string): AppState => ({ ...s, buckets: s.buckets.map((b) => ({ ...b, name })) });
+const assign = (s: AppState, bucketId: string | null): AppState => ({ ...s, txns: s.txns.map((t) => ({ ...t, bucketId })) });
+
+describe("record", () => {
+  it("folds a burst of typing into one step", () => {
+    const typing = { label: "Rename bucket", coalesce: "name:food" };
+    const a = rename(start, "Foo");
+    const b = rename(a, "Food & Drink");
+    let h = record(emptyHistory, typing, start, a, 1000);
+    h = record(h, typing, a, b, 1500);
+    expect(h.past).toHaveLength(1);
+    expect(h.past[0]).toMatchObject({ before: start, after: b });
+    // a pause starts a new step
+    expect(record(h, typing, b, rename(b, "Groceries"), 5000).past).toHaveLength(2);
+  });
+
+  it("replaces a step recorded twice (React running an updater again)", () => {
+    const cmd = { label: "Assign" };
+    const once = record(emptyHistory, cmd, start, assign(start, "food"), 1000);
+    const twice = record(once, cmd, start, assign(start, "food"), 1001);
+    expect(twice.past).toHaveLength(1);
+    expect(twice.past[0].before).toBe(start);
+  });
+});
+
+describe("undo and redo", () => {
+  it("undo takes back only the command, keeping an edit merged in from another device", () => {
+    const after = assign(start, "food");
+    const h = record(emptyHistory, { label: "Assign" }, start, after, 1000);
+    const remote = rename(after, "Groceries");
+    const undone = revert(stepBack(h)!.entry, remote);
+    expect(undone.txns[0].bucketId).toBeNull();
+    expect(undone.buckets[0].name).toBe("Groceries");
+  });
+
+  it("undo leaves the change log and snapshots alone", () => {
+    const after = assign(start, "food");
+    const h = record(emptyHistory, { label: "Assign" }, start, after, 1000);
+    const log = [{ id: "e1", at: "2024-03-05T10:00:00.000Z", by: null, label: "Assign", changes: [] }];
+    const snapshots = [{ id: "s1", name: "Before", at: "2024-03-05T09:00:00.000Z", by: null }];
+    const current = { ...after, log, snapshots };
+    const undone = revert(h.past[0], current);
+    expect(undone.txns[0].bucketId).toBeNull();
+    expect(undone.log).toBe(log);
+    expect(undone.snapshots).toBe(snapshots);
+  });
+
+  it("redo after undo puts the command back", () => {
+    const after = assign(start, "food");
+    const h = record(emptyHistory, { label: "Assign" }, start, after, 1000);
+    const back = stepBack(h)!;
+    const undone = revert(back.entry, after);
+    expect(back.history.future).toHaveLength(1);
+    const forward = stepForward(back.history)!;
+    expect(forward.history.past).toHaveLength(1);
+    expect(reapply(forward.entry, undone)).toEqual(after);
+    expect(stepForward(forward.history)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+// src/lib/history.ts
+// Undo/redo for local edits. Each entry remembers the state just before and
+// after one command. Undo doesn't jump back to the old snapshot: it reverses
+// only what that command changed (a three-way merge with the command's result
+// as base), so edits merged in from other devices since then are kept.
+// The change log and snapshots (lib/audit) are out of its reach.
+import type { AppState } from "./types";
+import { mergeStates } from "./merge";
+
+// An edit as the user sees it. Commands sharing a `coalesce` key in quick
+// succession (typing in a field) become one undo step; `undoable: false` is
+// for bookkeeping the app does on its own.
+export type Command = { label: string; destructive?: boolean; coalesce?: string; undoable?: false };
+
+export type HistoryEntry = {
+  label: string;
+  coalesce?: string;
+  before: AppState;
+  after: AppState;
+  // state the most recent step of this entry started from
+  from: AppState;
+  at: number;
+};
+
+export type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const MAX_HISTORY = 100;
+const COALESCE_MS = 1500;
+
+export const emptyHistory: History = { past: [], future: [] };
+
+// Add the step `from` → `after`. Recording the same step again (React may run
+// a state updater twice) replaces it rather than adding a duplicate.
+export function record(history: History, command: Command, from: AppState, after: AppState, now = Date.now()): History {
+  const past = history.past;
+  const last = past[past.length - 1];
+  if (last && last.from === from) {
+    return { past: [...past.slice(0, -1), { ...last, after, at: now }], future: [] };
+  }
+  if (last && command.coalesce && last.coalesce === command.coalesce && last.after === from && now - last.at < COALESCE_MS) {
+    return { past: [...past.slice(0, -1), { ...last, after, from, at: now }], future: [] };
+  }
+  const entry: HistoryEntry = { label: command.label, coalesce: command.coalesce, before: from, after, from, at: now };
+  return { past: [...past, entry].slice(-MAX_HISTORY), future: [] };
+}
+
+// The change log and snapshots record what happened; undo doesn't rewrite them.
+function keepJournal(next: AppState, current: AppState): AppState {
+  if (next.log === current.log && next.snapshots === current.snapshots) return next;
+  const out: AppState = { ...next, log: current.log, snapshots: current.snapshots };
+  if (!out.log) delete out.log;
+  if (!out.snapshots) delete out.snapshots;
+  return out;
+}
+
+// Take back what `entry` did, keeping anything changed since.
+export function revert(entry: HistoryEntry, current: AppState): AppState {
+  return keepJournal(mergeStates(entry.after, current, entry.before), current);
+}
+
+// Do `entry` again on top of the current state.
+export function reapply(entry: HistoryEntry, current: AppState): AppState {
+  return keepJournal(mergeStates(entry.before, current, entry.after), current);
+}
+
+// Move the newest entry between the stacks; null when there's nothing to move.
+export function stepBack(history: History): { history: History; entry: HistoryEntry } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return { entry, history: { past: history.past.slice(0, -1), future: [...history.future, entry] } };
+}
+
+export function stepForward(history: History): { history: History; entry: HistoryEntry } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return { entry, history: { past: [...history.past, entry], future: history.future.slice(0, -1) } };
+}
@@ -0,0 +1,340 @@
+// src/lib/localdb.ts
+// IndexedDB home of this device's copy of the state. Buckets, txns, the change
+// log and snapshots each get an object store keyed by id, so a save only writes
+// the records whose object changed since the last save; everything else (rules,
+// accounts, version, ...) plus the display order of the records is a single row
+// in "meta".
+//
+// Optional local lock: with a PIN set, every row (and the sync bases) is
+// encrypted with a key derived from it. The key only lives in memory while
+// unlocked; reads and writes fail while locked.
+import { DEFAULT_KDF, LEGACY_KDF, decryptWithKey, deriveKeyFromSalt, encryptWithKey, randomSalt } from "./crypto";
+import type { KdfParams } from "./crypto";
+
+const DB_NAME = "trowbridge-budget";
+// v2: log and snapshots moved out of the meta row
+const DB_VERSION = 2;
+const RECORD_STORES = ["buckets", "txns", "log", "snapshots"] as const;
+type RecordStore = (typeof RECORD_STORES)[number];
+const META_STORE = "meta";
+const META_KEY = "state";
+const LOCK_KEY = "lock";
+const BASE_KEY_PREFIX = "base:";
+// encrypted with the key on setup; decrypting it is how a PIN is checked
+const LOCK_CHECK = "trowbridge-budget-local-lock";
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+type Keyed = { id: string };
+// All this module needs to know about the state: some lists of records stored
+// one row each, and everything else kept together. Checking it is lib/schema's job.
+type StoredState = Record<string, unknown>;
+type SealedRecord = { id: string; sealed: string };
+// A list missing from `order` isn't in the state (log and snapshots are optional),
+// or was saved before it had a store and is still in `rest`.
+type Order = Partial<Record<RecordStore, string[]>>;
+type MetaRow = { rest: Record<string, unknown>; order: Order };
+// kdf is missing on locks set up before it was recorded (LEGACY_KDF)
+type LockRow = { salt: string; kdf?: KdfParams; check: string; autoLockMinutes: number };
+
+export type LocalLockStatus = { supported: boolean; enabled: boolean; unlocked: boolean; autoLockMinutes: number };
+
+export function indexedDBAvailable(): boolean {
+  try { return typeof indexedDB !== "undefined" && !!indexedDB; } catch { return false; }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Local database write was aborted"));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      RECORD_STORES.forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: "id" });
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    // let a later call try again (e.g. after the user frees up space)
+    dbPromise = request(req).catch((e) => { dbPromise = null; throw e; });
+  }
+  return dbPromise;
+}
+
+async function getMeta<T>(key: string): Promise<T | undefined> {
+  const db = await openDB();
+  return request<T | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+}
+
+// --- Local lock ---
+let lockRow: LockRow | null | undefined; // undefined = not read yet
+let key: CryptoKey | null = null;
+
+async function getLockRow(): Promise<LockRow | null> {
+  if (lockRow === undefined) lockRow = (await getMeta<LockRow>(LOCK_KEY)) ?? null;
+  return lockRow;
+}
+
+// null = no lock set; throws while locked
+async function activeKey(): Promise<CryptoKey | null> {
+  const row = await getLockRow();
+  if (!row) return null;
+  if (!key) throw new Error("Local data is locked");
+  return key;
+}
+
+export function isLocked(): boolean {
+  return !!lockRow && !key;
+}
+
+export async function localLockStatus(): Promise<LocalLockStatus> {
+  if (!indexedDBAvailable()) return { supported: false, enabled: false, unlocked: true, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES };
+  const row = await getLockRow();
+  return { supported: true, enabled: !!row, unlocked: !row || !!key, autoLockMinutes: row?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES };
+}
+
+// false when the PIN is wrong
+export async function unlockLocal(pin: string): Promise<boolean> {
+  const row = await getLockRow();
+  if (!row) return true;
+  const candidate = await deriveKeyFromSalt(pin, row.salt, row.kdf ?? LEGACY_KDF);
+  try {
+    if ((await decryptWithKey(candidate, row.check)) !== LOCK_CHECK) return false;
+  } catch { return false; }
+  key = candidate;
+  return true;
+}
+
+// Forget the key and the decrypted copy held for diffing.
+export function lockLocal(): void {
+  key = null;
+  persisted = null;
+}
+
+async function seal(k: CryptoKey | null, value: unknown): Promise<unknown> {
+  return k ? { sealed: await encryptWithKey(k, value) } : value;
+}
+async function unseal<T>(k: CryptoKey | null, row: unknown): Promise<T> {
+  if (row && typeof row === "object" && "sealed" in row) {
+    if (!k) throw new Error("Local data is locked");
+    return (await decryptWithKey(k, (row as { sealed: string }).sealed)) as T;
+  }
+  return row as T;
+}
+async function sealRecord(k: CryptoKey | null, r: Keyed): Promise<Keyed | SealedRecord> {
+  return k ? { id: r.id, sealed: await encryptWithKey(k, r) } : r;
+}
+
+// --- State ---
+// The state as it is on disk after the last read or write; saves diff against it.
+let persisted: StoredState | null = null;
+
+// Everything that reads or moves `persisted` runs one at a time, in call order,
+// so overlapping saves can't diff against the same state or land out of order.
+let queue: Promise<unknown> = Promise.resolve();
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task);
+  queue = run.catch(() => {});
+  return run;
+}
+
+function restOf(state: StoredState): Record<string, unknown> {
+  const rest: Record<string, unknown> = {};
+  Object.keys(state).forEach((k) => { if (!(RECORD_STORES as readonly string[]).includes(k)) rest[k] = state[k]; });
+  return rest;
+}
+
+function idsOf(state: StoredState, name: RecordStore): string[] | undefined {
+  return (state[name] as Keyed[] | undefined)?.map((r) => r.id);
+}
+
+function orderOf(state: StoredState): Order {
+  const order: Order = {};
+  RECORD_STORES.forEach((name) => { order[name] = idsOf(state, name); });
+  return order;
+}
+
+function sameIds(a: string[] | undefined, b: string[] | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+// getAll() returns records sorted by id; put them back in the saved order.
+function inOrder(records: Keyed[], ids: string[] | undefined): Keyed[] {
+  if (!ids) return records;
+  const byId = new Map(records.map((r) => [r.id, r]));
+  const ordered = ids.map((id) => byId.get(id)).filter((r): r is Keyed => !!r);
+  // anything missing from the order list still comes back, at the end
+  const listed = new Set(ids);
+  return ordered.concat(records.filter((r) => !listed.has(r.id)));
+}
+
+export function readState(): Promise<StoredState | null> {
+  return serialized(read);
+}
+
+async function read(): Promise<StoredState | null> {
+  const k = await activeKey();
+  const db = await openDB();
+  const tx = db.transaction([...RECORD_STORES, META_STORE], "readonly");
+  const [metaRow, ...storeRows] = await Promise.all([
+    request<unknown>(tx.objectStore(META_STORE).get(META_KEY)),
+    ...RECORD_STORES.map((name) => request<Keyed[]>(tx.objectStore(name).getAll())),
+  ]);
+  if (!metaRow) return null;
+  const meta = await unseal<MetaRow>(k, metaRow);
+  const lists = await Promise.all((storeRows as Keyed[][]).map((rows) => Promise.all(rows.map((r) => unseal<Keyed>(k, r)))));
+  const state: StoredState = { ...meta.rest };
+  // diff the next save against what the stores hold: a list still in the meta
+  // row (saved before it had a store) has none, so that save moves all of it
+  const onDisk: StoredState = { ...meta.rest };
+  RECORD_STORES.forEach((name, i) => {
+    const ids = meta.order?.[name];
+    if (ids) state[name] = onDisk[name] = inOrder(lists[i], ids);
+    else delete onDisk[name];
+  });
+  persisted = onDisk;
+  return state;
+}
+
+// Write only what differs (by reference) from the last persisted state. State
+// updates are immutable, so an unchanged record is the very same object.
+export function writeState(state: StoredState): Promise<void> {
+  return serialized(() => write(state));
+}
+
+async function write(state: StoredState): Promise<void> {
+  const k = await activeKey();
+  const prev = persisted;
+  const puts = {} as Record<RecordStore, Keyed[]>;
+  const deletes = {} as Record<RecordStore, string[]>;
+  const order = orderOf(state);
+  RECORD_STORES.forEach((name) => {
+    const records = (state[name] ?? []) as Keyed[];
+    const before = new Map<string, Keyed>(((prev?.[name] ?? []) as Keyed[]).map((r) => [r.id, r]));
+    puts[name] = records.filter((r) => before.get(r.id) !== r);
+    records.forEach((r) => before.delete(r.id));
+    deletes[name] = [...before.keys()];
+  });
+  const rest = restOf(state);
+  const metaChanged = !prev ||
+    RECORD_STORES.some((name) => !sameIds(order[name], idsOf(prev, name))) ||
+    Object.keys({ ...rest, ...restOf(prev) }).some((field) => rest[field] !== prev[field]);
+
+  // encrypt before opening the transaction: IndexedDB commits a transaction
+  // as soon as it's left waiting on anything else
+  const rows = {} as Record<RecordStore, unknown[]>;
+  for (const name of RECORD_STORES) rows[name] = await Promise.all(puts[name].map((r) => sealRecord(k, r)));
+  const metaRow = metaChanged ? await seal(k, { rest, order } satisfies MetaRow) : undefined;
+  if (k !== (lockRow ? key : null)) throw new Error("The local lock changed while saving");
+
+  const db = await openDB();
+  const tx = db.transaction([...RECORD_STORES, META_STORE], "readwrite");
+  RECORD_STORES.forEach((name) => {
+    const store = tx.objectStore(name);
+    // nothing to diff against yet: start the store over
+    if (!prev) store.clear();
+    rows[name].forEach((r) => store.put(r));
+    deletes[name].forEach((id) => store.delete(id));
+  });
+  if (metaRow !== undefined) tx.objectStore(META_STORE).put(metaRow, META_KEY);
+  await completion(tx);
+  persisted = state;
+}
+
+// --- Sync bases (see lib/storage) ---
+export async function readBase(householdId: string): Promise<unknown | null> {
+  const k = await activeKey();
+  const row = await getMeta<unknown>(BASE_KEY_PREFIX + householdId);
+  return row === undefined ? null : unseal(k, row);
+}
+
+export async function writeBase(householdId: string, base: unknown): Promise<void> {
+  const row = await seal(await activeKey(), base);
+  const db = await openDB();
+  const tx = db.transaction(META_STORE, "readwrite");
+  tx.objectStore(META_STORE).put(row, BASE_KEY_PREFIX + householdId);
+  await completion(tx);
+}
+
+// Turn the lock on, change the PIN, or turn it off (pin = null). Everything on
+// disk is rewritten under the new key in one transaction. Must be unlocked.
+export function setLocalPin(pin: string | null, state: StoredState): Promise<void> {
+  return serialized(() => rewrite(pin, state));
+}
+
+async function rewrite(pin: string | null, state: StoredState): Promise<void> {
+  const oldKey = await activeKey();
+  const db = await openDB();
+  const baseKeys = (await request(db.transaction(META_STORE).objectStore(META_STORE).getAllKeys()))
+    .filter((k): k is string => typeof k === "string" && k.startsWith(BASE_KEY_PREFIX));
+  const bases = await Promise.all(baseKeys.map(async (k) => unseal<unknown>(oldKey, await getMeta(k))));
+
+  let newKey: CryptoKey | null = null;
+  let newRow: LockRow | null = null;
+  if (pin) {
+    const salt = randomSalt();
+    newKey = await deriveKeyFromSalt(pin, salt, DEFAULT_KDF);
+    newRow = { salt, kdf: DEFAULT_KDF, check: await encryptWithKey(newKey, LOCK_CHECK), autoLockMinutes: lockRow?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES };
+  }
+  const rows = {} as Record<RecordStore, unknown[]>;
+  for (const name of RECORD_STORES) {
+    rows[name] = await Promise.all(((state[name] ?? []) as Keyed[]).map((r) => sealRecord(newKey, r)));
+  }
+  const metaRow = await seal(newKey, { rest: restOf(state), order: orderOf(state) } satisfies MetaRow);
+  const baseRows = await Promise.all(bases.map((b) => seal(newKey, b)));
+
+  const tx = db.transaction([...RECORD_STORES, META_STORE], "readwrite");
+  RECORD_STORES.forEach((name) => {
+    const store = tx.objectStore(name);
+    store.clear();
+    rows[name].forEach((r) => store.put(r));
+  });
+  const meta = tx.objectStore(META_STORE);
+  meta.put(metaRow, META_KEY);
+  baseKeys.forEach((k, i) => meta.put(baseRows[i], k));
+  if (newRow) meta.put(newRow, LOCK_KEY); else meta.delete(LOCK_KEY);
+  await completion(tx);
+  lockRow = newRow;
+  key = newKey;
+  persisted = state;
+}
+
+export async function setAutoLockMinutes(minutes: number): Promise<void> {
+  const row = await getLockRow();
+  if (!row) return;
+  const next = { ...row, autoLockMinutes: minutes };
+  const db = await openDB();
+  const tx = db.transaction(META_STORE, "readwrite");
+  tx.objectStore(META_STORE).put(next, LOCK_KEY);
+  await completion(tx);
+  lockRow = next;
+}
+
+// Forgotten PIN: drop everything stored on this device (the cloud copy, if
+// any, is untouched and comes back on the next connect).
+export function eraseLocalData(): Promise<void> {
+  return serialized(async () => {
+    const db = await openDB();
+    const tx = db.transaction([...RECORD_STORES, META_STORE], "readwrite");
+    [...RECORD_STORES, META_STORE].forEach((name) => tx.objectStore(name).clear());
+    await completion(tx);
+    lockRow = null;
+    key = null;
+    persisted = null;
+  });
+}
@@ -0,0 +1,61 @@
+// src/lib/members.ts
+// Household members: what each role may do in the app (nothing stops a member
+// from writing the row directly, see the README), and stamping which member
+// changed a bucket or txn. Stamping happens in one place (App's setState)
+// by comparing records by reference, so no edit has to remember to do it.
+import type { AppState, ID, Member, MemberRole, Txn } from "./types";
+
+export const ROLE_LABELS: Record<MemberRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export function canEdit(role: MemberRole): boolean {
+  return role !== "viewer";
+}
+
+export function canManageMembers(role: MemberRole): boolean {
+  return role === "owner";
+}
+
+// Role of whoever is using the app. `memberId` null means the shared household
+// passphrase (or no cloud at all), which acts as an owner. A member who has
+// been removed from the list but still has a key slot is treated as a viewer.
+export function roleOf(members: Member[] | undefined, memberId: ID | null): MemberRole {
+  if (memberId === null) return "owner";
+  return members?.find((m) => m.id === memberId)?.role ?? "viewer";
+}
+
+export function memberName(members: Member[] | undefined, id: ID | undefined): string | undefined {
+  return id ? members?.find((m) => m.id === id)?.name : undefined;
+}
+
+// Who spent the money: set explicitly, or else whoever added the txn.
+export function spenderOf(t: Txn): ID | undefined {
+  return t.spentBy ?? t.createdBy;
+}
+
+type Stamped = { id: ID; createdBy?: ID; updatedBy?: ID };
+
+function stampList<T extends Stamped>(prev: T[], next: T[], memberId: ID): T[] {
+  if (prev === next) return next;
+  const before = new Map(prev.map((r) => [r.id, r]));
+  let changed = false;
+  const out = next.map((r) => {
+    const old = before.get(r.id);
+    if (old === r) return r;
+    changed = true;
+    return old ? { ...r, updatedBy: memberId } : { ...r, createdBy: r.createdBy ?? memberId, updatedBy: memberId };
+  });
+  return changed ? out : next;
+}
+
+// Mark every bucket/txn that differs (by reference) between prev and next as
+// changed by memberId.
+export function stampChanges(prev: AppState, next: AppState, memberId: ID | null): AppState {
+  if (!memberId || prev === next) return next;
+  const buckets = stampList(prev.buckets, next.buckets, memberId);
+  const txns = stampList(prev.txns, next.txns, memberId);
+  return buckets === next.buckets && txns === next.txns ? next : { ...next, buckets, txns };
+}
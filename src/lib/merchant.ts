@@ -0,0 +1,13 @@
+// src/lib/merchant.ts
+// Helpers for turning raw bank descriptions into merchant names.
+
+// pull a merchant-y title from the raw description
+export function extractTitle(desc: string) {
+  const m = desc.match(/^([A-Za-z0-9'&\-.\s]{3,}?)(?:\s+(?:TX|CA|NY|[A-Z]{2})\b|\s+\d{2,}|\s+-|$)/i);
+  return (m?.[1] || desc).trim();
+}
+
+// stable lowercase key for comparing merchants ("COSTCO WHSE #123" ~ "Costco Whse")
+export function merchantKey(desc: string) {
+  return extractTitle(desc).toLowerCase().replace(/[^a-z&' ]+/g, " ").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { findConflicts, mergeStates, resolveConflicts } from "./merge";
+import type { AppState, BankProfile, Bucket, ColumnRole, Txn } from "./types";
+
+const income: Bucket = { id: "income", name: "Income", allocations: {}, isIncome: true };
+const food: Bucket = { id: "food", name: "Food", allocations: { "2024-03": 400, "2024-04": 400 } };
+const coffee: Txn = { id: "t1", date: "2024-03-02", description: "Cafe", amount: -4.5, bucketId: null };
+const rent: Txn = { id: "t2", date: "2024-03-01", description: "Rent", amount: -1200, bucketId: null };
+
+const base: AppState = { version: 3, buckets: [income, food], txns: [coffee, rent] };
+
+function withTxn(s: AppState, id: string, patch: Partial<Txn>): AppState {
+  return { ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, ...patch } : t)) };
+}
+function withBucket(s: AppState, id: string, patch: Partial<Bucket>): AppState {
+  return { ...s, buckets: s.buckets.map((b) => (b.id === id ? { ...b, ...patch } : b)) };
+}
+
+describe("mergeStates", () => {
+  it("returns local itself when the other side changed nothing", () => {
+    const local = withTxn(base, "t1", { bucketId: "food" });
+    expect(mergeStates(base, local, base)).toBe(local);
+  });
+
+  it("keeps concurrent edits to different records", () => {
+    const local = withTxn(base, "t1", { bucketId: "food" });
+    const remote = withTxn(base, "t2", { bucketId: "food" });
+    const merged = mergeStates(base, local, remote);
+    expect(merged.txns.map((t) => t.bucketId)).toEqual(["food", "food"]);
+    expect(findConflicts(base, local, remote)).toEqual([]);
+  });
+
+  it("merges different fields of the same record, and different months of a bucket", () => {
+    const local = withBucket(withTxn(base, "t1", { bucketId: "food" }), "food", { allocations: { ...food.allocations, "2024-03": 450 } });
+    const remote = withBucket(withTxn(base, "t1", { description: "Corner Cafe" }), "food", { allocations: { ...food.allocations, "2024-04": 380 } });
+    const merged = mergeStates(base, local, remote);
+    expect(merged.txns[0]).toEqual({ ...coffee, bucketId: "food", description: "Corner Cafe" });
+    expect(merged.buckets[1].allocations).toEqual({ "2024-03": 450, "2024-04": 380 });
+    expect(findConflicts(base, local, remote)).toEqual([]);
+  });
+
+  it("adds records created on either side and drops ones deleted on one side only", () => {
+    const added: Txn = { id: "t3", date: "2024-03-05", description: "Books", amount: -20, bucketId: null };
+    const local = { ...base, txns: [...base.txns, added] };
+    const remote = { ...base, txns: [rent] };
+    expect(mergeStates(base, local, remote).txns.map((t) => t.id)).toEqual(["t2", "t3"]);
+  });
+
+  it("keeps an edit made to a record the other side deleted, and reports it", () => {
+    const local = withTxn(base, "t1", { bucketId: "food" });
+    const remote = { ...base, txns: [rent] };
+    expect(mergeStates(base, local, remote).txns.map((t) => t.id)).toEqual(["t1", "t2"]);
+    expect(findConflicts(base, local, remote)).toEqual([
+      { collection: "txns", id: "t1", base: coffee, local: local.txns[0], remote: undefined },
+    ]);
+  });
+
+  it("lets local win a clash, and resolveConflicts can hand it to the other side", () => {
+    const local = withTxn(base, "t1", { bucketId: "food" });
+    const remote = withTxn(base, "t1", { bucketId: "income" });
+    const merged = mergeStates(base, local, remote);
+    expect(merged.txns[0].bucketId).toBe("food");
+    const conflicts = findConflicts(base, local, remote);
+    expect(conflicts.map((c) => `${c.collection}:${c.id}`)).toEqual(["txns:t1"]);
+    expect(resolveConflicts(merged, conflicts, { "txns:t1": "remote" }).txns[0].bucketId).toBe("income");
+  });
+
+  it("doesn't count two people stamping updatedBy as a conflict", () => {
+    const local = withTxn(base, "t1", { bucketId: "food", updatedBy: "alex" });
+    const remote = withTxn(base, "t1", { description: "Corner Cafe", updatedBy: "sam" });
+    expect(findConflicts(base, local, remote)).toEqual([]);
+  });
+
+  it("merges lists of plain values as sets and never lowers the version", () => {
+    const start = { ...base, dismissedSubscriptions: ["gym", "news"] };
+    const local = { ...start, dismissedSubscriptions: ["gym", "news", "music"] };
+    const remote = { ...start, version: 4, dismissedSubscriptions: ["news"] };
+    const merged = mergeStates(start, local, remote);
+    expect(merged.dismissedSubscriptions).toEqual(["news", "music"]);
+    expect(merged.version).toBe(4);
+  });
+
+  it("keeps ordered lists whole: local wins and the clash is reported", () => {
+    const profile: BankProfile = {
+      id: "p1", name: "Bank", header: ["date", "memo", "amount"], hasHeader: true,
+      columns: ["date", "description", "amount"], dateFormat: "auto", sign: "negative-expense",
+    };
+    const start = { ...base, bankProfiles: [profile] };
+    const local = { ...start, bankProfiles: [{ ...profile, columns: ["date", "ignore", "amount"] as ColumnRole[] }] };
+    const remote = { ...start, bankProfiles: [{ ...profile, columns: ["description", "date", "amount"] as ColumnRole[] }] };
+    expect(mergeStates(start, local, remote).bankProfiles?.[0].columns).toEqual(["date", "ignore", "amount"]);
+    expect(findConflicts(start, local, remote).map((c) => `${c.collection}:${c.id}`)).toEqual(["bankProfiles:p1"]);
+  });
+
+  it("without a base, takes the union of both sides", () => {
+    const remote = { ...base, txns: [{ ...rent, id: "t9" }] };
+    expect(mergeStates(null, base, remote).txns.map((t) => t.id)).toEqual(["t1", "t2", "t9"]);
+  });
+});
@@ -0,0 +1,171 @@
+// src/lib/merge.ts
+// Three-way merge of two copies of the household state that both started from
+// `base` (the last state this device knows was in the cloud). Works per record
+// (matched by id) and per field, so two people assigning different txns, or
+// editing different months of the same bucket, both keep their changes.
+//  - changed on one side only  → that side's value
+//  - changed on both sides     → `local` wins (it is the write happening now)
+//  - deleted on one side, untouched on the other → deleted
+//  - deleted on one side, edited on the other    → the edit survives
+// Unchanged parts of `local` are returned by reference, so a merge that brings
+// nothing new returns `local` itself.
+import type { AppState } from "./types";
+
+type Obj = Record<string, unknown>;
+type Keyed = { id: string } & Obj;
+
+function isPlainObject(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((x, i) => deepEqual(x, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const ka = Object.keys(a).filter((k) => a[k] !== undefined);
+    const kb = Object.keys(b).filter((k) => b[k] !== undefined);
+    return ka.length === kb.length && ka.every((k) => deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+function isKeyedList(v: unknown): v is Keyed[] {
+  return Array.isArray(v) && v.length > 0 && v.every((x) => isPlainObject(x) && typeof x.id === "string");
+}
+
+function isPrimitiveList(v: unknown): v is (string | number)[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string" || typeof x === "number");
+}
+
+// Lists of plain values that are really sets. Every other plain list (a bank
+// profile's column roles, ...) is ordered and merges as one value.
+const SET_FIELDS = new Set(["dismissedSubscriptions"]);
+
+function mergeObject(base: Obj, local: Obj, remote: Obj): Obj {
+  const out: Obj = {};
+  let same = true;
+  new Set([...Object.keys(local), ...Object.keys(remote)]).forEach((k) => {
+    const v = mergeValue(base[k], local[k], remote[k], k);
+    if (v !== local[k]) same = false;
+    if (v !== undefined) out[k] = v;
+  });
+  return same ? local : out;
+}
+
+function mergeValue(base: unknown, local: unknown, remote: unknown, field?: string): unknown {
+  if (deepEqual(local, remote) || deepEqual(remote, base)) return local;
+  if (deepEqual(local, base)) return remote;
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    return mergeObject(isPlainObject(base) ? base : {}, local, remote);
+  }
+  if ((isKeyedList(local) || isKeyedList(remote)) && Array.isArray(local) && Array.isArray(remote)) {
+    return mergeRecords(Array.isArray(base) ? base : [], local as Keyed[], remote as Keyed[]);
+  }
+  if (field && SET_FIELDS.has(field) && isPrimitiveList(local) && isPrimitiveList(remote)) {
+    return mergeSet(isPrimitiveList(base) ? base : [], local, remote);
+  }
+  return local;
+}
+
+// Lists of records keyed by id (buckets, txns, rules, ...). Keeps local order;
+// records only the other device has are appended.
+function mergeRecords(base: Keyed[], local: Keyed[], remote: Keyed[]): Keyed[] {
+  const b = new Map(base.map((x) => [x.id, x]));
+  const r = new Map(remote.map((x) => [x.id, x]));
+  const l = new Set(local.map((x) => x.id));
+  const out: Keyed[] = [];
+  local.forEach((item) => {
+    const rb = b.get(item.id);
+    const rr = r.get(item.id);
+    if (!rr) {
+      if (rb && deepEqual(item, rb)) return; // deleted remotely, untouched here
+      out.push(item);
+      return;
+    }
+    out.push(mergeValue(rb, item, rr) as Keyed);
+  });
+  remote.forEach((item) => {
+    if (l.has(item.id)) return;
+    const rb = b.get(item.id);
+    if (rb && deepEqual(item, rb)) return; // deleted here, untouched remotely
+    out.push(item);
+  });
+  return out.length === local.length && out.every((x, i) => x === local[i]) ? local : out;
+}
+
+// Dismissed subscription keys and the like; order doesn't matter.
+function mergeSet<T extends string | number>(base: T[], local: T[], remote: T[]): T[] {
+  const b = new Set(base);
+  const l = new Set(local);
+  const added = remote.filter((x) => !l.has(x) && !b.has(x));
+  const removed = new Set(base.filter((x) => !remote.includes(x)));
+  const out = [...local.filter((x) => !removed.has(x)), ...added];
+  return out.length === local.length && out.every((x, i) => x === local[i]) ? local : out;
+}
+
+export function mergeStates(base: AppState | null, local: AppState, remote: AppState): AppState {
+  const merged = mergeObject((base ?? {}) as Obj, local as Obj, remote as Obj) as AppState;
+  // never step back to an older schema
+  const version = Math.max(local.version ?? 0, remote.version ?? 0) || undefined;
+  return merged.version === version ? merged : { ...merged, version };
+}
+
+// A bucket, txn or bank profile that both sides changed in a way the merge can't
+// settle on its own: the same field edited differently, or edited on one side and
+// deleted on the other.
+export type RecordConflict = {
+  collection: "buckets" | "txns" | "bankProfiles";
+  id: string;
+  base?: Obj;
+  local?: Obj;   // undefined = deleted here
+  remote?: Obj;  // undefined = deleted on the other device
+};
+
+// Who-changed-it bookkeeping; two people editing different fields of the same
+// record both stamp it, which isn't worth asking anyone about.
+const ATTRIBUTION_FIELDS = new Set(["updatedBy"]);
+
+function fieldsClash(base: unknown, local: unknown, remote: unknown): boolean {
+  if (deepEqual(local, remote) || deepEqual(local, base) || deepEqual(remote, base)) return false;
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    const b = isPlainObject(base) ? base : {};
+    return [...new Set([...Object.keys(local), ...Object.keys(remote)])]
+      .some((k) => !ATTRIBUTION_FIELDS.has(k) && fieldsClash(b[k], local[k], remote[k]));
+  }
+  return true;
+}
+
+export function findConflicts(base: AppState | null, local: AppState, remote: AppState): RecordConflict[] {
+  const out: RecordConflict[] = [];
+  (["buckets", "txns", "bankProfiles"] as const).forEach((collection) => {
+    const b = new Map(((base?.[collection] ?? []) as unknown as Keyed[]).map((x) => [x.id, x]));
+    const r = new Map(((remote[collection] ?? []) as unknown as Keyed[]).map((x) => [x.id, x]));
+    const l = new Map(((local[collection] ?? []) as unknown as Keyed[]).map((x) => [x.id, x]));
+    new Set([...l.keys(), ...r.keys()]).forEach((id) => {
+      const lb = b.get(id), ll = l.get(id), rr = r.get(id);
+      const clash = ll && rr
+        ? fieldsClash(lb, ll, rr)
+        // deleted on one side: only a conflict if the other side edited it
+        : !!lb && !deepEqual(ll ?? rr, lb);
+      if (clash) out.push({ collection, id, base: lb, local: ll, remote: rr });
+    });
+  });
+  return out;
+}
+
+// Apply the user's per-record choice on top of an automatic merge.
+export function resolveConflicts(merged: AppState, conflicts: RecordConflict[], pick: Record<string, "local" | "remote">): AppState {
+  let out = merged;
+  conflicts.forEach((c) => {
+    const chosen = pick[`${c.collection}:${c.id}`] === "remote" ? c.remote : c.local;
+    const list = (out[c.collection] ?? []) as unknown as Keyed[];
+    const exists = list.some((x) => x.id === c.id);
+    const next = !chosen
+      ? list.filter((x) => x.id !== c.id)
+      : exists ? list.map((x) => (x.id === c.id ? (chosen as Keyed) : x)) : [...list, chosen as Keyed];
+    out = { ...out, [c.collection]: next };
+  });
+  return out;
+}
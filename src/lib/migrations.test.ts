@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_VERSION, MIGRATIONS, migrate, prepareState, repairError, repairReportOf } from "./migrations";
+import { defaultAccount } from "./accounts";
+import type { AppState, SnapshotData, Txn } from "./types";
+
+const income = { id: "income", name: "Income", allocations: {}, isIncome: true };
+const txn = (id: string, extra: Partial<Txn> = {}): Txn =>
+  ({ id, date: "2024-03-01", description: "Cafe", amount: -4.5, bucketId: null, ...extra });
+
+function step(version: number) {
+  const m = MIGRATIONS.find((x) => x.version === version);
+  if (!m) throw new Error(`no migration to v${version}`);
+  return m;
+}
+
+describe("migration steps", () => {
+  it("are in order, one per version", () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(CURRENT_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it("v1 only introduces the version number", () => {
+    const s: SnapshotData = { buckets: [income], txns: [txn("t1")] };
+    expect(step(1).up(s)).toBe(s);
+  });
+
+  it("v2 fingerprints txns imported before de-duplication, keeping existing ones", () => {
+    const s: SnapshotData = { buckets: [income], txns: [txn("t1"), txn("t2"), txn("t3", { fingerprint: "kept-0" })] };
+    const [a, b, c] = step(2).up(s).txns;
+    expect(a.fingerprint).toMatch(/^[0-9a-f]{8}-0$/);
+    // identical rows are told apart by their occurrence
+    expect(b.fingerprint).toBe(a.fingerprint!.replace(/-0$/, "-1"));
+    expect(c.fingerprint).toBe("kept-0");
+  });
+
+  it("v3 puts existing txns in a default account", () => {
+    const s: SnapshotData = { buckets: [income], txns: [txn("t1"), txn("t2", { accountId: "card" })] };
+    const out = step(3).up(s);
+    expect(out.accounts).toEqual([defaultAccount()]);
+    expect(out.txns.map((t) => t.accountId)).toEqual([defaultAccount().id, "card"]);
+  });
+
+  it("v3 keeps accounts that already exist and files unassigned txns under the first", () => {
+    const card = { id: "card", name: "Visa", kind: "credit" as const, openingBalance: 0 };
+    const out = step(3).up({ buckets: [income], txns: [txn("t1")], accounts: [card] });
+    expect(out.accounts).toEqual([card]);
+    expect(out.txns[0].accountId).toBe("card");
+  });
+
+  it("v4 drops the budget copies snapshots used to carry", () => {
+    const old = { id: "s1", name: "Before", at: "2024-01-01T00:00:00Z", by: null, data: { buckets: [income], txns: [txn("t1")] } };
+    const out = step(4).up({ buckets: [income], txns: [], snapshots: [old] } as SnapshotData) as AppState;
+    expect(out.snapshots).toEqual([{ id: "s1", name: "Before", at: "2024-01-01T00:00:00Z", by: null }]);
+  });
+});
+
+describe("migrate", () => {
+  it("runs every step after the stored version and stamps the new version", () => {
+    const out = migrate({ version: 2, buckets: [income], txns: [txn("t1")] });
+    expect(out.version).toBe(CURRENT_VERSION);
+    expect(out.txns[0].fingerprint).toBeUndefined(); // v2 had already run
+    expect(out.txns[0].accountId).toBe(defaultAccount().id);
+  });
+
+  it("leaves a current state alone", () => {
+    const s: AppState = { version: CURRENT_VERSION, buckets: [income], txns: [] };
+    expect(migrate(s)).toBe(s);
+  });
+
+});
+
+describe("prepareState", () => {
+  it("repairs what it can and reports each problem by path", () => {
+    const raw = {
+      buckets: [{ id: "food", name: 7, allocations: { "2024-03": "lots", "2024-04": 50 } }],
+      txns: [txn("t1", { amount: "x" as unknown as number }), txn("t2"), txn("t2")],
+    };
+    const { state, report } = prepareState(raw, "Test");
+    expect(state?.buckets.map((b) => [b.id, b.name, b.allocations])).toEqual([
+      ["income", "Income", {}],
+      ["food", "Untitled", { "2024-04": 50 }],
+    ]);
+    expect(state?.txns.map((t) => t.id)).toEqual(["t2"]);
+    expect(report?.fatal).toBe(false);
+    expect(report?.issues.map((i) => i.path)).toEqual([
+      "buckets[0].name", "buckets[0].allocations[2024-03]", "txns[0].amount", "txns[0]", "txns[1]", "buckets",
+    ]);
+  });
+
+  it("keeps only the first income bucket", () => {
+    const { state, report } = prepareState({ version: CURRENT_VERSION, buckets: [income, { ...income, id: "side", name: "Side gig" }], txns: [] }, "Test");
+    expect(state?.buckets.filter((b) => b.isIncome).map((b) => b.id)).toEqual(["income"]);
+    expect(report?.issues).toEqual([{ path: "buckets", message: '"Side gig" was a second income bucket; now a regular bucket' }]);
+  });
+
+  it("has nothing to report for a clean current state", () => {
+    const s = { version: CURRENT_VERSION, buckets: [income], txns: [] };
+    expect(prepareState(s, "Test")).toEqual({ state: s, report: null });
+  });
+
+  it("gives up on data that isn't a budget, or is from a newer version", () => {
+    expect(prepareState("nope", "Test")).toMatchObject({ state: null, report: { fatal: true, raw: "nope" } });
+    expect(prepareState({ rules: [] }, "Test").report?.issues[0].message).toBe("no list of buckets or transactions");
+    const newer = prepareState({ version: CURRENT_VERSION + 1, buckets: [], txns: [] }, "Test");
+    expect(newer.state).toBeNull();
+    expect(newer.report?.issues[0].message).toMatch(/newer version/);
+  });
+
+  it("carries the report on the error thrown for unreadable data", () => {
+    const { report } = prepareState(42, "This device's copy");
+    const error = repairError(report!);
+    expect(error.message).toBe("This device's copy couldn't be read: not a budget (expected an object)");
+    expect(repairReportOf(error)).toBe(report);
+    expect(repairReportOf(new Error("other"))).toBeNull();
+  });
+});
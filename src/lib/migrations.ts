@@ -0,0 +1,82 @@
+// src/lib/migrations.ts
+// Versioned upgrades of saved state, and the one pipeline every state from
+// outside the app goes through: validate and repair (lib/schema), then migrate
+// to CURRENT_VERSION. Older versions only lack fields the schema marks
+// optional, so validation can run first and migrations can trust their input.
+// Add a step at the end of MIGRATIONS for each new version; never edit old ones.
+import type { AppState, Snapshot, SnapshotData } from "./types";
+import { assignFingerprints } from "./dedupe";
+import { defaultAccount } from "./accounts";
+import { validateState } from "./schema";
+import type { SchemaIssue } from "./schema";
+
+export type Migration = {
+  version: number; // the version this step produces
+  description: string;
+  up: <T extends SnapshotData>(state: T) => T;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Version number",
+    up: (s) => s,
+  },
+  {
+    version: 2,
+    description: "Stable import fingerprints for txns imported before de-duplication",
+    up: (s) => ({ ...s, txns: assignFingerprints(s.txns) }),
+  },
+  {
+    version: 3,
+    description: "Accounts; everything imported so far lands in a default checking account",
+    up: (s) => {
+      const accounts = s.accounts?.length ? s.accounts : [defaultAccount()];
+      const fallback = accounts[0].id;
+      return { ...s, accounts, txns: s.txns.map((t) => (t.accountId ? t : { ...t, accountId: fallback })) };
+    },
+  },
+  {
+    version: 4,
+    description: "Snapshots are a moment in the change log instead of a copy of the budget",
+    up: (s) => {
+      const { snapshots } = s as { snapshots?: (Snapshot & { data?: unknown })[] };
+      if (!snapshots?.some((x) => "data" in x)) return s;
+      return { ...s, snapshots: snapshots.map(({ id, name, at, by }) => ({ id, name, at, by })) };
+    },
+  },
+];
+
+export const CURRENT_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Bring a (valid) state up to CURRENT_VERSION.
+export function migrate(state: AppState): AppState {
+  const from = state.version ?? 0;
+  return MIGRATIONS.reduce((s, m) => (m.version > from ? { ...m.up(s), version: m.version } : s), state);
+}
+
+// What was wrong with one stored state. `fatal` means nothing usable was
+// left; `raw` is kept so the damaged data can still be saved somewhere.
+export type RepairReport = { source: string; issues: SchemaIssue[]; fatal: boolean; raw: unknown };
+export type Prepared = { state: AppState; report: RepairReport | null } | { state: null; report: RepairReport };
+
+// `source` names where the data came from, for the report ("This device's copy").
+export function prepareState(raw: unknown, source: string): Prepared {
+  const version = typeof raw === "object" && raw !== null ? (raw as { version?: unknown }).version : undefined;
+  if (typeof version === "number" && version > CURRENT_VERSION) {
+    const issue = { path: "version", message: `saved by a newer version of the app (v${version}); update this app to open it` };
+    return { state: null, report: { source, issues: [issue], fatal: true, raw } };
+  }
+  const { state, issues } = validateState(raw);
+  if (!state) return { state: null, report: { source, issues, fatal: true, raw } };
+  return { state: migrate(state), report: issues.length ? { source, issues, fatal: false, raw } : null };
+}
+
+// Errors thrown for data that couldn't be loaded carry the report.
+export function repairError(report: RepairReport): Error {
+  return Object.assign(new Error(`${report.source} couldn't be read: ${report.issues[0]?.message ?? "unknown problem"}`), { report });
+}
+
+export function repairReportOf(error: unknown): RepairReport | null {
+  return error instanceof Error && "report" in error ? (error as Error & { report: RepairReport }).report : null;
+}
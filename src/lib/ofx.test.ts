@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import checking from "./__fixtures__/checking.ofx?raw";
+import { looksLikeOFX, parseOFX } from "./ofx";
+import { assignFingerprints, classifyImport } from "./dedupe";
+import type { Txn } from "./types";
+
+function toTxns(rows: ReturnType<typeof parseOFX>["rows"], prefix: string, accountId = "checking"): Txn[] {
+  return assignFingerprints(rows.map((r, i) => ({ id: `${prefix}${i}`, ...r, bucketId: null, accountId })));
+}
+
+describe("parseOFX", () => {
+  it("reads an OFX 1.x (SGML) statement", () => {
+    expect(looksLikeOFX(checking)).toBe(true);
+    const { rows, errors, accountId } = parseOFX(checking);
+    expect(accountId).toBe("000123456789");
+    expect(rows).toEqual([
+      { date: "2024-03-01", amount: -42.17, description: "TRADER JOE'S #552", fitId: "2024030100001", payee: "TRADER JOE'S #552", memo: "POS PURCHASE" },
+      { date: "2024-03-02", amount: 2500, description: "ACME CORP PAYROLL", fitId: "2024030200002", payee: "ACME CORP PAYROLL", memo: undefined },
+      { date: "2024-03-04", amount: -9.99, description: "Monthly fee", fitId: "2024030400003", payee: undefined, memo: "Monthly fee" },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toMatch(/DTPOSTED/);
+  });
+
+  it("reads OFX 2.x (XML) with closed leaf tags", () => {
+    const xml = `<?xml version="1.0"?><?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKACCTFROM><ACCTID>987</ACCTID></BANKACCTFROM>
+<BANKTRANLIST><STMTTRN><DTPOSTED>20240110</DTPOSTED><TRNAMT>-3.50</TRNAMT><FITID>A1</FITID><NAME>Coffee &amp; Co</NAME></STMTTRN></BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+    const { rows, errors, accountId } = parseOFX(xml);
+    expect(errors).toEqual([]);
+    expect(accountId).toBe("987");
+    expect(rows).toEqual([{ date: "2024-01-10", amount: -3.5, description: "Coffee & Co", fitId: "A1", payee: "Coffee & Co", memo: undefined }]);
+  });
+
+  it("rejects files that aren't OFX", () => {
+    expect(parseOFX("Date,Amount\n2024-01-01,5").errors[0].message).toBe("Not an OFX/QFX file");
+  });
+
+  it("de-duplicates a re-imported statement by FITID even when the bank renames payees", () => {
+    const existing = toTxns(parseOFX(checking).rows, "old");
+    const renamed = checking.replace("ACME CORP PAYROLL", "ACME CORPORATION DIRECT DEP");
+    const rows = classifyImport(toTxns(parseOFX(renamed).rows, "new"), existing, "checking");
+    expect(rows.map((r) => r.status)).toEqual(["duplicate", "duplicate", "duplicate"]);
+    expect(rows[1].match?.id).toBe("old1");
+  });
+
+  it("only matches FITIDs within the statement's account", () => {
+    const [first] = parseOFX(checking).rows;
+    // another bank reusing the same FITID for an unrelated card charge
+    const card: Txn = { id: "c1", date: "2024-02-11", amount: -18, description: "PARKING", fitId: first.fitId, bucketId: null, accountId: "card" };
+    const incoming = toTxns([first], "new");
+    expect(classifyImport(incoming, assignFingerprints([card]), "checking")[0].status).toBe("new");
+    expect(classifyImport(incoming, assignFingerprints([card]), "card")[0].status).toBe("duplicate");
+  });
+
+  it("falls back to fingerprints when the account isn't known", () => {
+    const existing = toTxns(parseOFX(checking).rows, "old");
+    const rows = classifyImport(toTxns(parseOFX(checking).rows, "new"), existing);
+    expect(rows.map((r) => r.status)).toEqual(["duplicate", "duplicate", "duplicate"]);
+  });
+});
@@ -0,0 +1,70 @@
+// src/lib/ofx.ts
+// OFX / QFX statement parsing. Handles both OFX 1.x (SGML, leaf tags left
+// unclosed) and OFX 2.x (XML). Only <STMTTRN> records are read.
+import type { ImportIssue, ParsedRow } from "./csv";
+import { parseAmount } from "./csv";
+
+export type OFXStatement = { rows: ParsedRow[]; errors: ImportIssue[]; accountId?: string };
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'").replace(/&nbsp;/g, " ").replace(/&amp;/g, "&");
+}
+
+// Value of a leaf element: text after <TAG> up to the next tag or line break.
+function leaf(block: string, tag: string): string | undefined {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const v = m ? decodeEntities(m[1]).trim() : "";
+  return v || undefined;
+}
+
+
+// OFX dates are YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz]]; the calendar day is all we keep.
+function ofxDate(raw: string | undefined): string | null {
+  const m = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!m) return null;
+  const [mo, d] = [+m[2], +m[3]];
+  if (mo < 1 || mo > 12 || d < 1 || d > 31) return null;
+  return `${m[1]}-${m[2]}-${m[3]}`;
+}
+
+export function looksLikeOFX(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2048));
+}
+
+export function parseOFX(text: string): OFXStatement {
+  const rows: ParsedRow[] = [];
+  const errors: ImportIssue[] = [];
+  if (!looksLikeOFX(text)) {
+    return { rows, errors: [{ line: 1, message: "Not an OFX/QFX file" }] };
+  }
+
+  const re = /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+  let m: RegExpExecArray | null;
+  let line = 1;
+  let scanned = 0;
+  while ((m = re.exec(text))) {
+    const block = m[1];
+    for (; scanned < m.index; scanned++) if (text[scanned] === "\n") line++;
+    const date = ofxDate(leaf(block, "DTPOSTED") ?? leaf(block, "DTUSER"));
+    const rawAmount = leaf(block, "TRNAMT");
+    // OFX amounts have no thousands separators; some banks use "," as the decimal mark
+    const amount = rawAmount !== undefined ? parseAmount(rawAmount.replace(",", "."), ".") : null;
+    if (!date) { errors.push({ line, message: "Missing or invalid DTPOSTED" }); continue; }
+    if (amount === null) { errors.push({ line, message: `Unrecognized TRNAMT "${rawAmount ?? ""}"` }); continue; }
+
+    const payee = leaf(block, "NAME") ?? leaf(block, "PAYEE");
+    const memo = leaf(block, "MEMO");
+    rows.push({
+      date,
+      amount,
+      description: payee ?? memo ?? leaf(block, "TRNTYPE") ?? "",
+      fitId: leaf(block, "FITID"),
+      payee,
+      memo,
+    });
+  }
+  if (!rows.length && !errors.length) errors.push({ line: 1, message: "No transactions found in statement" });
+  return { rows, errors, accountId: leaf(text, "ACCTID") };
+}
@@ -0,0 +1,42 @@
+// src/lib/outbox.ts
+// Durable note that a cloud save is still owed. The state itself is already in
+// local storage (saveState writes it first), so the outbox only remembers which
+// household is behind and how many times we've tried, to back off between retries.
+export type OutboxEntry = { householdId: string; queuedAt: number; attempts: number; lastError?: string };
+
+const OUTBOX_KEY = "trowbridge-budget-outbox";
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 5 * 60_000;
+
+function hasLocalStorage(): boolean {
+  try { return typeof window !== "undefined" && !!window.localStorage; } catch { return false; }
+}
+
+export function loadOutbox(householdId: string): OutboxEntry | null {
+  if (!hasLocalStorage()) return null;
+  try {
+    const raw = window.localStorage.getItem(OUTBOX_KEY);
+    const entry: OutboxEntry | null = raw ? JSON.parse(raw) : null;
+    return entry?.householdId === householdId ? entry : null;
+  } catch { return null; }
+}
+
+// Record another failed attempt; returns the updated entry.
+export function queueCloudSave(householdId: string, error: string): OutboxEntry {
+  const prev = loadOutbox(householdId);
+  const entry: OutboxEntry = { householdId, queuedAt: prev?.queuedAt ?? Date.now(), attempts: (prev?.attempts ?? 0) + 1, lastError: error };
+  if (hasLocalStorage()) {
+    try { window.localStorage.setItem(OUTBOX_KEY, JSON.stringify(entry)); } catch { /* still retried this session */ }
+  }
+  return entry;
+}
+
+export function clearOutbox(): void {
+  if (!hasLocalStorage()) return;
+  try { window.localStorage.removeItem(OUTBOX_KEY); } catch { /* nothing to clear */ }
+}
+
+// 2s, 4s, 8s, ... capped at 5 minutes.
+export function retryDelay(attempts: number): number {
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import card from "./__fixtures__/card.qif?raw";
+import { looksLikeQIF, parseQIF } from "./qif";
+
+describe("parseQIF", () => {
+  it("reads a credit card export, skipping the account list and categories", () => {
+    expect(looksLikeQIF(card)).toBe(true);
+    const { rows, errors } = parseQIF(card);
+    expect(rows).toEqual([
+      { date: "2024-03-01", amount: -64.2, description: "SHELL OIL 5734", payee: "SHELL OIL 5734", memo: "Fuel" },
+      // split lines are ignored; the U total is used when T is missing
+      { date: "2024-03-02", amount: -1250, description: "APPLE STORE", payee: "APPLE STORE", memo: undefined },
+      { date: "2024-03-05", amount: 35, description: "PAYMENT THANK YOU", payee: "PAYMENT THANK YOU", memo: undefined },
+    ]);
+    expect(errors).toEqual([{ line: 23, message: 'Unrecognized date "13/45/2024"' }]);
+  });
+
+  it("honours an explicit date format", () => {
+    const { rows } = parseQIF("!Type:Bank\nD05/03/2024\nT-1.00\nPBakery\n^\n", "DD/MM/YYYY");
+    expect(rows[0].date).toBe("2024-03-05");
+  });
+
+  it("reports a file with no transactions", () => {
+    expect(parseQIF("!Type:Bank\n").errors).toEqual([{ line: 1, message: "No transactions found in file" }]);
+  });
+});
@@ -0,0 +1,65 @@
+// src/lib/qif.ts
+// Quicken Interchange Format. One field per line, keyed by its first
+// character; "^" ends a record. Only bank/credit-card style records are read.
+import type { DateFormat } from "./types";
+import type { ImportIssue, ParsedRow } from "./csv";
+import { parseAmount, parseDate } from "./csv";
+
+export type QIFStatement = { rows: ParsedRow[]; errors: ImportIssue[] };
+
+export function looksLikeQIF(text: string): boolean {
+  return /^\s*!(Type|Account|Option)/i.test(text.replace(/^\uFEFF/, ""));
+}
+
+// Quicken writes 2000s years as  1/ 5'24  — normalize to 1/5/24 before parsing.
+function qifDate(raw: string, format: DateFormat): string | null {
+  return parseDate(raw.replace(/\s+/g, "").replace("'", "/"), format);
+}
+
+export function parseQIF(text: string, dateFormat: DateFormat = "auto"): QIFStatement {
+  const rows: ParsedRow[] = [];
+  const errors: ImportIssue[] = [];
+  let rec: Record<string, string> = {};
+  let recLine = 1;
+  let skipping = false; // inside a non-transaction section (!Account, !Type:Cat, ...)
+
+  const flush = () => {
+    const fields = rec;
+    rec = {};
+    if (skipping || !Object.keys(fields).length) return;
+    const date = fields.D !== undefined ? qifDate(fields.D, dateFormat) : null;
+    const rawAmount = fields.T ?? fields.U;
+    const amount = rawAmount !== undefined ? parseAmount(rawAmount, ".") : null;
+    if (!date) { errors.push({ line: recLine, message: fields.D ? `Unrecognized date "${fields.D}"` : "Missing date (D)" }); return; }
+    if (amount === null) { errors.push({ line: recLine, message: `Unrecognized amount "${rawAmount ?? ""}"` }); return; }
+    const payee = fields.P || undefined;
+    const memo = fields.M || undefined;
+    rows.push({ date, amount, description: payee ?? memo ?? "", payee, memo });
+  };
+
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trimEnd();
+    if (!line) return;
+    if (line.startsWith("!")) {
+      flush();
+      const header = line.toLowerCase();
+      if (header.startsWith("!type:")) {
+        const kind = header.slice(6).trim();
+        skipping = !["bank", "cash", "ccard", "oth a", "oth l"].includes(kind);
+      } else if (header.startsWith("!account")) {
+        skipping = true; // account list follows until the next !Type
+      }
+      return;
+    }
+    if (line.startsWith("^")) { flush(); recLine = i + 2; return; }
+    if (!Object.keys(rec).length) recLine = i + 1;
+    const code = line[0];
+    // split lines (S/E/$) belong to the parent txn; we import the total only
+    if (code === "S" || code === "E" || code === "$") return;
+    if (rec[code] === undefined) rec[code] = line.slice(1).trim();
+  });
+  flush();
+  if (!rows.length && !errors.length) errors.push({ line: 1, message: "No transactions found in file" });
+  return { rows, errors };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { matchRecurring, occurrencesBetween } from "./recurring";
+import type { RecurringItem, Txn } from "./types";
+
+const item = (extra: Partial<RecurringItem> = {}): RecurringItem =>
+  ({ id: "rent", name: "Rent", amount: -1200, bucketId: "home", cadence: "monthly", interval: 1, startDate: "2024-01-31", enabled: true, ...extra });
+const txn = (id: string, date: string, amount: number, extra: Partial<Txn> = {}): Txn =>
+  ({ id, date, description: "RENT PAYMENT LANDLORD", amount, bucketId: null, ...extra });
+
+describe("occurrencesBetween", () => {
+  it("keeps the day of month, clamped to short months", () => {
+    expect(occurrencesBetween(item(), "2024-01-01", "2024-05-31"))
+      .toEqual(["2024-01-31", "2024-02-29", "2024-03-31", "2024-04-30", "2024-05-31"]);
+    expect(occurrencesBetween(item({ startDate: "2023-02-28", cadence: "yearly" }), "2023-01-01", "2025-12-31"))
+      .toEqual(["2023-02-28", "2024-02-28", "2025-02-28"]);
+  });
+
+  it("steps weekly across a month end and stops at the end date", () => {
+    const weekly = item({ cadence: "weekly", interval: 2, startDate: "2024-01-05", endDate: "2024-02-20" });
+    expect(occurrencesBetween(weekly, "2024-01-20", "2024-03-31")).toEqual(["2024-02-02", "2024-02-16"]);
+  });
+
+  it("skips months between every-N-months occurrences", () => {
+    expect(occurrencesBetween(item({ interval: 3, startDate: "2024-01-15" }), "2024-02-01", "2024-12-31"))
+      .toEqual(["2024-04-15", "2024-07-15", "2024-10-15"]);
+  });
+});
+
+describe("matchRecurring", () => {
+  it("links a txn to the nearest unpaid occurrence and gives it the item's bucket", () => {
+    const [t] = matchRecurring([txn("t1", "2024-03-02", -1200)], [item()], []);
+    expect(t).toMatchObject({ recurringId: "rent", recurringDate: "2024-02-29", bucketId: "home" });
+  });
+
+  it("moves on to the next occurrence when the nearest one is already paid", () => {
+    const paid = txn("t0", "2024-02-29", -1200, { recurringId: "rent", recurringDate: "2024-02-29" });
+    const [t] = matchRecurring([txn("t1", "2024-03-27", -1200)], [item()], [paid]);
+    expect(t.recurringDate).toBe("2024-03-31");
+  });
+
+  it("leaves txns alone when the text, amount or date doesn't fit", () => {
+    const items = [item()];
+    const misses = [
+      txn("text", "2024-03-31", -1200, { description: "GROCERY" }),
+      txn("amount", "2024-03-31", -1500),
+      txn("date", "2024-03-15", -1200),
+      txn("transfer", "2024-03-31", -1200, { transferPeerId: "x" }),
+    ];
+    expect(matchRecurring(misses, items, []).map((t) => t.recurringId)).toEqual([undefined, undefined, undefined, undefined]);
+  });
+
+  it("keeps the bucket a txn already has", () => {
+    const [t] = matchRecurring([txn("t1", "2024-03-31", -1190, { bucketId: "bills" })], [item()], []);
+    expect(t).toMatchObject({ recurringId: "rent", bucketId: "bills" });
+  });
+});
@@ -0,0 +1,114 @@
+// src/lib/recurring.ts
+// Expected occurrences of recurring bills/deposits, and matching imported
+// txns to them. A txn that paid an occurrence records recurringId +
+// recurringDate; any occurrence without such a txn is still "pending".
+import type { ID, RecurringItem, Txn } from "./types";
+import { merchantKey } from "./merchant";
+import { isTransfer } from "./transfers";
+import { dayNumber, fromDayNumber, toISO } from "./dates";
+
+export type PendingTxn = { item: RecurringItem; date: string; amount: number; bucketId: ID | null };
+
+const MATCH_WINDOW_DAYS = 5;
+const AMOUNT_TOLERANCE = 0.1; // utilities vary a little month to month
+
+function pad(n: number) { return String(n).padStart(2, "0"); }
+function daysInMonth(y: number, m: number) { return new Date(y, m, 0).getDate(); }
+
+export function describeCadence(item: RecurringItem): string {
+  const [, m, d] = item.startDate.split("-").map(Number);
+  const n = Math.max(1, item.interval);
+  const ordinal = (x: number) => `${x}${x % 10 === 1 && x !== 11 ? "st" : x % 10 === 2 && x !== 12 ? "nd" : x % 10 === 3 && x !== 13 ? "rd" : "th"}`;
+  if (item.cadence === "weekly") return n === 1 ? "Every week" : `Every ${n} weeks`;
+  if (item.cadence === "monthly") return `${n === 1 ? "Monthly" : `Every ${n} months`} on the ${ordinal(d)}`;
+  const month = new Date(2000, m - 1, 1).toLocaleDateString(undefined, { month: "short" });
+  return `${n === 1 ? "Yearly" : `Every ${n} years`} on ${month} ${d}`;
+}
+
+// All occurrence dates of `item` in [from, to] (inclusive ISO dates).
+export function occurrencesBetween(item: RecurringItem, from: string, to: string): string[] {
+  const out: string[] = [];
+  const end = item.endDate && item.endDate < to ? item.endDate : to;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(item.startDate) || end < item.startDate) return out;
+  const n = Math.max(1, Math.floor(item.interval) || 1);
+
+  if (item.cadence === "weekly") {
+    const start = dayNumber(item.startDate);
+    const step = 7 * n;
+    const first = Math.max(0, Math.ceil((dayNumber(from) - start) / step));
+    for (let d = start + first * step; d <= dayNumber(end); d += step) out.push(fromDayNumber(d));
+    return out;
+  }
+
+  const [sy, sm, sd] = item.startDate.split("-").map(Number);
+  const stepMonths = item.cadence === "yearly" ? 12 * n : n;
+  const [fy, fm] = from.split("-").map(Number);
+  let k = Math.max(0, Math.floor(((fy - sy) * 12 + (fm - sm)) / stepMonths));
+  for (;; k++) {
+    const idx = sm - 1 + k * stepMonths;
+    const y = sy + Math.floor(idx / 12);
+    const m = (idx % 12) + 1;
+    const date = toISO(y, m, Math.min(sd, daysInMonth(y, m)));
+    if (date > end) break;
+    if (date >= from) out.push(date);
+  }
+  return out;
+}
+
+function monthRange(month: string): [string, string] {
+  const [y, m] = month.split("-").map(Number);
+  return [`${month}-01`, `${month}-${pad(daysInMonth(y, m))}`];
+}
+
+// Occurrences in `month` (YYYY-MM) not yet paid by a txn.
+export function pendingForMonth(items: RecurringItem[], txns: Txn[], month: string): PendingTxn[] {
+  const [from, to] = monthRange(month);
+  const paid = new Set(txns.filter((t) => !t.deleted && t.recurringId).map((t) => `${t.recurringId}|${t.recurringDate}`));
+  const out: PendingTxn[] = [];
+  items.forEach((item) => {
+    if (!item.enabled) return;
+    occurrencesBetween(item, from, to).forEach((date) => {
+      if (!paid.has(`${item.id}|${date}`)) out.push({ item, date, amount: item.amount, bucketId: item.bucketId });
+    });
+  });
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function textMatches(item: RecurringItem, t: Txn): boolean {
+  const needle = merchantKey(item.matchText?.trim() || item.name);
+  return !!needle && merchantKey(t.description).includes(needle);
+}
+
+function amountMatches(item: RecurringItem, t: Txn): boolean {
+  if (Math.sign(item.amount) !== Math.sign(t.amount)) return false;
+  return Math.abs(t.amount - item.amount) <= Math.abs(item.amount) * AMOUNT_TOLERANCE + 0.005;
+}
+
+// Link incoming txns to the closest unpaid occurrence (within a few days, similar
+// amount, description contains the item's match text). Matched txns that are
+// still unassigned take the item's bucket. Transfer legs are never matched.
+export function matchRecurring(incoming: Txn[], items: RecurringItem[], existing: Txn[]): Txn[] {
+  const active = items.filter((i) => i.enabled);
+  if (!active.length) return incoming;
+  const paid = new Set(existing.filter((t) => !t.deleted && t.recurringId).map((t) => `${t.recurringId}|${t.recurringDate}`));
+
+  return incoming.map((t) => {
+    if (t.recurringId || t.deleted || isTransfer(t)) return t;
+    const day = dayNumber(t.date);
+    const from = fromDayNumber(day - MATCH_WINDOW_DAYS);
+    const to = fromDayNumber(day + MATCH_WINDOW_DAYS);
+    let best: { item: RecurringItem; date: string; gap: number } | null = null;
+    for (const item of active) {
+      if (!textMatches(item, t) || !amountMatches(item, t)) continue;
+      for (const date of occurrencesBetween(item, from, to)) {
+        if (paid.has(`${item.id}|${date}`)) continue;
+        const gap = Math.abs(dayNumber(date) - day);
+        if (!best || gap < best.gap) best = { item, date, gap };
+      }
+    }
+    if (!best) return t;
+    paid.add(`${best.item.id}|${best.date}`);
+    const claimBucket = t.bucketId === null && !t.splits?.length && best.item.bucketId !== null;
+    return { ...t, recurringId: best.item.id, recurringDate: best.date, ...(claimBucket ? { bucketId: best.item.bucketId } : {}) };
+  });
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { carryIns } from "./rollover";
+import type { Bucket, Txn } from "./types";
+
+const spend = (date: string, amount: number): Txn =>
+  ({ id: `${date}:${amount}`, date, description: "Groceries", amount, bucketId: "food" });
+
+describe("carryIns", () => {
+  it("carries surplus and overspending through every month in between", () => {
+    const food: Bucket = { id: "food", name: "Food", allocations: { "2024-01": 400, "2024-02": 400 }, rollover: { mode: "both" } };
+    const txns = [spend("2024-01-10", -300), spend("2024-02-10", -550)];
+    expect(carryIns([food], txns, "2024-02")).toEqual({ food: 100 });
+    expect(carryIns([food], txns, "2024-03")).toEqual({ food: -50 });
+  });
+
+  it("counts a month nobody opened as the most recent earlier allocation", () => {
+    // 2024-02 was never seeded; seeding would have given it 400
+    const food: Bucket = { id: "food", name: "Food", allocations: { "2024-01": 400, "2024-03": 400 }, rollover: { mode: "surplus" } };
+    const txns = [spend("2024-01-10", -350), spend("2024-02-10", -380)];
+    expect(carryIns([food], txns, "2024-04")).toEqual({ food: 470 });
+  });
+
+  it("skips months the bucket was deleted for", () => {
+    const food: Bucket = {
+      id: "food", name: "Food", allocations: { "2024-01": 400, "2024-02": 400 },
+      deletedMonths: { "2024-02": true }, rollover: { mode: "both" },
+    };
+    expect(carryIns([food], [spend("2024-01-10", -300)], "2024-03")).toEqual({ food: 100 });
+  });
+
+  it("fills unseeded months of a goal with the contribution it requires", () => {
+    const trip: Bucket = { id: "trip", name: "Trip", allocations: { "2024-01": 100 }, goal: { target: 1000, targetDate: "2024-06" } };
+    // Jan 100; Feb needs (1000 - 100) / 5 = 180
+    expect(carryIns([trip], [], "2024-03")).toEqual({ trip: 280 });
+  });
+});
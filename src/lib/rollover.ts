@@ -0,0 +1,72 @@
+// src/lib/rollover.ts
+// Month-to-month carry of bucket balances. Carry-in is always computed from
+// allocations and txns (never stored), so editing a past month flows through
+// every later month automatically.
+import type { Bucket, ID, RolloverMode, Txn } from "./types";
+import { amountInBucket } from "./splits";
+import { isBudgetTxn } from "./transfers";
+import { isGoalBucket, requiredContribution } from "./goals";
+
+function cents(n: number) { return Math.round(n * 100) / 100; }
+
+export function nextMonthKey(key: string): string {
+  const [y, m] = key.split("-").map(Number);
+  return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, "0")}`;
+}
+
+// Goal buckets always keep their whole balance: that balance is the fund.
+export function rolloverMode(bucket: Bucket): RolloverMode {
+  if (bucket.goal) return "both";
+  return bucket.rollover?.mode ?? "none";
+}
+
+// What a month's closing balance contributes to the next month.
+export function carryFromBalance(bucket: Bucket, balance: number): number {
+  switch (rolloverMode(bucket)) {
+    case "surplus": return Math.max(0, balance);
+    case "both": return balance;
+    case "capped": return Math.min(Math.max(0, balance), Math.max(0, bucket.rollover?.cap ?? 0));
+    default: return 0;
+  }
+}
+
+// Net assigned amount per month for one bucket (spending negative).
+function monthlyNet(txns: Txn[], bucketId: ID): Record<string, number> {
+  const net: Record<string, number> = {};
+  txns.forEach((t) => {
+    if (!isBudgetTxn(t)) return;
+    const amt = amountInBucket(t, bucketId);
+    if (!amt) return;
+    const k = t.date.slice(0, 7);
+    net[k] = (net[k] || 0) + amt;
+  });
+  return net;
+}
+
+// Balance carried into `month` for each bucket with a rollover mode.
+// Walks from the bucket's first allocated month so later months see the
+// whole chain; buckets without rollover are omitted (carry-in 0).
+// Months the bucket was deleted for are skipped (the balance passes through).
+// Months nobody opened were never seeded, so they count as seeding would
+// fill them: the most recent earlier allocation, or what a goal requires.
+export function carryIns(buckets: Bucket[], txns: Txn[], month: string): Record<ID, number> {
+  const out: Record<ID, number> = {};
+  buckets.forEach((b) => {
+    if (b.isIncome || rolloverMode(b) === "none") return;
+    const first = Object.keys(b.allocations).sort()[0];
+    if (!first || first >= month) return;
+    const net = monthlyNet(txns, b.id);
+    let carry = 0;
+    let lastAllocation = 0;
+    for (let k = first; k < month; k = nextMonthKey(k)) {
+      const stored = b.allocations[k];
+      if (stored !== undefined) lastAllocation = stored;
+      if (b.deletedMonths?.[k]) continue;
+      const allocation = stored ?? (isGoalBucket(b) ? requiredContribution(b.goal, k, carry) : lastAllocation);
+      const balance = allocation + (net[k] || 0) + carry;
+      carry = cents(carryFromBalance(b, balance));
+    }
+    if (carry) out[b.id] = carry;
+  });
+  return out;
+}
@@ -0,0 +1,71 @@
+// src/lib/rules.ts
+// Auto-categorization: assign imported transactions to buckets by rule.
+import type { ID, Rule, Txn } from "./types";
+import { extractTitle } from "./merchant";
+import { isUnassigned } from "./splits";
+import { isTransfer } from "./transfers";
+
+function compilePattern(pattern: string): RegExp | null {
+  try { return new RegExp(pattern, "i"); } catch { return null; }
+}
+
+export function isRuleValid(rule: Rule): boolean {
+  const hasCondition = !!rule.merchant?.trim() || !!rule.pattern?.trim() ||
+    rule.minAmount !== undefined || rule.maxAmount !== undefined || !!rule.sign;
+  if (!hasCondition || !rule.bucketId) return false;
+  if (rule.pattern && !compilePattern(rule.pattern)) return false;
+  return true;
+}
+
+export function ruleMatches(rule: Rule, txn: Txn): boolean {
+  if (!rule.enabled || !isRuleValid(rule)) return false;
+  if (rule.merchant?.trim()) {
+    const title = extractTitle(txn.description).toLowerCase();
+    if (!title.includes(rule.merchant.trim().toLowerCase())) return false;
+  }
+  if (rule.pattern?.trim()) {
+    const re = compilePattern(rule.pattern);
+    if (!re || !re.test(txn.description)) return false;
+  }
+  const abs = Math.abs(txn.amount);
+  if (rule.minAmount !== undefined && abs < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && abs > rule.maxAmount) return false;
+  if (rule.sign === "expense" && txn.amount >= 0) return false;
+  if (rule.sign === "income" && txn.amount <= 0) return false;
+  return true;
+}
+
+export function findMatchingRule(rules: Rule[], txn: Txn): Rule | null {
+  return rules.find((r) => ruleMatches(r, txn)) ?? null;
+}
+
+// Assign a bucket to every unassigned txn that a rule matches.
+// Already-assigned txns are left alone so manual choices always win;
+// transfer legs never belong in a bucket.
+export function applyRules(txns: Txn[], rules: Rule[], bucketIds?: Set<ID>): Txn[] {
+  if (!rules.length) return txns;
+  return txns.map((t) => {
+    if (!isUnassigned(t) || t.deleted || isTransfer(t)) return t;
+    const rule = findMatchingRule(rules, t);
+    if (!rule || (bucketIds && !bucketIds.has(rule.bucketId))) return t;
+    return { ...t, bucketId: rule.bucketId };
+  });
+}
+
+export type RuleStats = { count: number; lastDate: string | null };
+
+// How many (non-deleted) txns each rule would claim as the winning rule,
+// and the most recent such txn. A rule with no recent matches is stale.
+export function ruleStats(rules: Rule[], txns: Txn[]): Record<ID, RuleStats> {
+  const stats: Record<ID, RuleStats> = {};
+  rules.forEach((r) => { stats[r.id] = { count: 0, lastDate: null }; });
+  txns.forEach((t) => {
+    if (t.deleted) return;
+    const rule = findMatchingRule(rules, t);
+    if (!rule) return;
+    const s = stats[rule.id];
+    s.count++;
+    if (!s.lastDate || t.date > s.lastDate) s.lastDate = t.date;
+  });
+  return stats;
+}
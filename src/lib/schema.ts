@@ -0,0 +1,304 @@
+// src/lib/schema.ts
+// Runtime shape of AppState, checked whenever state comes from outside the
+// running app (the local database, the cloud, a backup file). The shapes are
+// typed against lib/types, so a field added there won't compile until it is
+// described here too. Validation repairs what it safely can and reports every
+// problem by path (e.g. `txns[12].amount`); records it can't repair are dropped.
+import type {
+  Account, AppState, AuditChange, AuditEntry, BankProfile, Bucket, Member, RecurringItem, Rule,
+  SavingsGoal, Snapshot, SnapshotData, Txn, TxnSplit,
+} from "./types";
+
+export type SchemaIssue = { path: string; message: string };
+export type Validation = { state: AppState | null; issues: SchemaIssue[] };
+
+const INVALID = Symbol("invalid");
+type Invalid = typeof INVALID;
+type Obj = Record<string, unknown>;
+
+// A check returns the (possibly repaired) value, or INVALID. Checks that look
+// inside objects and lists report their own nested problems to `issues`.
+type Check<T> = { expected: string; parse: (v: unknown, path: string, issues: SchemaIssue[]) => T | Invalid };
+// optional: may be missing, dropped when invalid · fallback: replaces a missing/invalid value
+type Field<T> = { check: Check<T>; optional?: boolean; fallback?: () => T };
+type Shape<T> = { [K in keyof Required<T>]: Field<Exclude<T[K], undefined>> };
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function leaf<T>(expected: string, ok: (v: unknown) => boolean): Check<T> {
+  return { expected, parse: (v) => (ok(v) ? (v as T) : INVALID) };
+}
+
+const str = leaf<string>("text", (v) => typeof v === "string");
+const num = leaf<number>("a number", (v) => typeof v === "number" && Number.isFinite(v));
+const bool = leaf<boolean>("true or false", (v) => typeof v === "boolean");
+const date = leaf<string>("a date (YYYY-MM-DD)", (v) => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v));
+const anything = leaf<unknown>("anything", () => true);
+
+function oneOf<T extends string>(...values: T[]): Check<T> {
+  return leaf<T>(`one of ${values.map((v) => JSON.stringify(v)).join(", ")}`, (v) => values.includes(v as T));
+}
+
+function nullable<T>(check: Check<T>): Check<T | null> {
+  return { expected: `${check.expected} or null`, parse: (v, path, issues) => (v === null ? null : check.parse(v, path, issues)) };
+}
+
+// Entries failing `check` are dropped.
+function dict<T>(check: Check<T>): Check<Record<string, T>> {
+  return {
+    expected: "a table of values",
+    parse: (v, path, issues) => {
+      if (!isObj(v)) return INVALID;
+      const out: Record<string, T> = {};
+      Object.entries(v).forEach(([k, x]) => {
+        const parsed = check.parse(x, `${path}[${k}]`, issues);
+        if (parsed === INVALID) issues.push({ path: `${path}[${k}]`, message: `expected ${check.expected}; removed` });
+        else out[k] = parsed;
+      });
+      return out;
+    },
+  };
+}
+
+// Items failing `check` are dropped.
+function list<T>(check: Check<T>): Check<T[]> {
+  return {
+    expected: "a list",
+    parse: (v, path, issues) => {
+      if (!Array.isArray(v)) return INVALID;
+      const out: T[] = [];
+      v.forEach((x, i) => {
+        const parsed = check.parse(x, `${path}[${i}]`, issues);
+        if (parsed === INVALID) issues.push({ path: `${path}[${i}]`, message: `not ${check.expected}; removed` });
+        else out.push(parsed);
+      });
+      return out;
+    },
+  };
+}
+
+// Fields not in the shape are kept as they are (data from a newer version).
+function object<T>(expected: string, shape: Shape<T>): Check<T> {
+  return {
+    expected,
+    parse: (v, path, issues) => {
+      if (!isObj(v)) return INVALID;
+      const out: Obj = { ...v };
+      let ok = true;
+      Object.entries(shape).forEach(([key, f]) => {
+        const field = f as Field<unknown>;
+        const at = join(path, key);
+        const raw = v[key];
+        const parsed = raw === undefined ? INVALID : field.check.parse(raw, at, issues);
+        if (parsed !== INVALID) { out[key] = parsed; return; }
+        if (raw === undefined && field.optional) return;
+        delete out[key];
+        const problem = raw === undefined ? "missing" : `expected ${field.check.expected}`;
+        if (field.fallback) {
+          out[key] = field.fallback();
+          issues.push({ path: at, message: `${problem}; reset to a default` });
+        } else if (field.optional) {
+          issues.push({ path: at, message: `${problem}; removed` });
+        } else {
+          issues.push({ path: at, message: problem });
+          ok = false;
+        }
+      });
+      return ok ? (out as T) : INVALID;
+    },
+  };
+}
+
+const req = <T>(check: Check<T>): Field<T> => ({ check });
+const opt = <T>(check: Check<T>): Field<T> => ({ check, optional: true });
+const orElse = <T>(check: Check<T>, fallback: () => T): Field<T> => ({ check, fallback });
+
+const goal = object<SavingsGoal>("a savings goal", { target: req(num), targetDate: req(str) });
+
+const bucket = object<Bucket>("a bucket", {
+  id: req(str),
+  name: orElse(str, () => "Untitled"),
+  category: opt(str),
+  allocations: orElse(dict(num), () => ({})),
+  isIncome: opt(bool),
+  deletedMonths: opt(dict(bool)),
+  rollover: opt(object<NonNullable<Bucket["rollover"]>>("a rollover setting", {
+    mode: req(oneOf("none", "surplus", "both", "capped")),
+    cap: opt(num),
+  })),
+  goal: opt(goal),
+  createdBy: opt(str),
+  updatedBy: opt(str),
+});
+
+const split = object<TxnSplit>("a split part", { id: req(str), bucketId: orElse(nullable(str), () => null), amount: req(num) });
+
+const txn = object<Txn>("a transaction", {
+  id: req(str),
+  date: req(date),
+  description: orElse(str, () => ""),
+  amount: req(num),
+  bucketId: orElse(nullable(str), () => null),
+  deleted: opt(bool),
+  fingerprint: opt(str),
+  fitId: opt(str),
+  payee: opt(str),
+  memo: opt(str),
+  splits: opt(list(split)),
+  recurringId: opt(str),
+  recurringDate: opt(date),
+  accountId: opt(str),
+  cleared: opt(bool),
+  reconciled: opt(bool),
+  transferPeerId: opt(str),
+  createdBy: opt(str),
+  updatedBy: opt(str),
+  spentBy: opt(str),
+});
+
+const rule = object<Rule>("a rule", {
+  id: req(str),
+  name: orElse(str, () => ""),
+  bucketId: req(str),
+  merchant: opt(str),
+  pattern: opt(str),
+  minAmount: opt(num),
+  maxAmount: opt(num),
+  sign: opt(oneOf("expense", "income")),
+  enabled: orElse(bool, () => true),
+});
+
+const bankProfile = object<BankProfile>("a bank profile", {
+  id: req(str),
+  name: orElse(str, () => "Bank"),
+  header: orElse(list(str), () => []),
+  hasHeader: orElse(bool, () => true),
+  columns: req(list(oneOf("date", "description", "amount", "debit", "credit", "ignore"))),
+  dateFormat: orElse(oneOf("auto", "YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"), () => "auto" as const),
+  sign: orElse(oneOf("negative-expense", "positive-expense"), () => "negative-expense" as const),
+  delimiter: opt(oneOf(",", ";", "\t")),
+  decimal: opt(oneOf("auto", ".", ",")),
+});
+
+const recurring = object<RecurringItem>("a recurring item", {
+  id: req(str),
+  name: orElse(str, () => ""),
+  amount: req(num),
+  bucketId: orElse(nullable(str), () => null),
+  cadence: req(oneOf("weekly", "monthly", "yearly")),
+  interval: orElse(num, () => 1),
+  startDate: req(date),
+  endDate: opt(date),
+  matchText: opt(str),
+  enabled: orElse(bool, () => true),
+});
+
+const account = object<Account>("an account", {
+  id: req(str),
+  name: orElse(str, () => "Account"),
+  kind: orElse(oneOf("checking", "savings", "credit", "cash"), () => "checking" as const),
+  openingBalance: orElse(num, () => 0),
+  externalId: opt(str),
+  lastReconciled: opt(object<NonNullable<Account["lastReconciled"]>>("a reconciliation", { date: req(date), balance: req(num) })),
+  closed: opt(bool),
+});
+
+// an unknown role would be a way in, so it falls back to the least access
+const member = object<Member>("a member", {
+  id: req(str),
+  name: orElse(str, () => "Member"),
+  role: orElse(oneOf("owner", "editor", "viewer"), () => "viewer" as const),
+});
+
+const auditChange = object<AuditChange>("a logged change", {
+  collection: req(str),
+  id: opt(str),
+  name: opt(str),
+  field: opt(str),
+  before: opt(anything),
+  after: opt(anything),
+});
+
+const auditEntry = object<AuditEntry>("a log entry", {
+  id: req(str),
+  at: req(str),
+  by: orElse(nullable(str), () => null),
+  label: orElse(str, () => "Edit"),
+  changes: orElse(list(auditChange), () => []),
+});
+
+// The budget itself, as kept in snapshots too
+const dataShape: Shape<SnapshotData> = {
+  buckets: orElse(list(bucket), () => []),
+  txns: orElse(list(txn), () => []),
+  rules: opt(list(rule)),
+  bankProfiles: opt(list(bankProfile)),
+  recurring: opt(list(recurring)),
+  accounts: opt(list(account)),
+  dismissedSubscriptions: opt(list(str)),
+  version: opt(num),
+};
+
+const snapshot: Check<Snapshot> = object<Snapshot>("a snapshot", {
+  id: req(str),
+  name: orElse(str, () => "Snapshot"),
+  at: req(str),
+  by: orElse(nullable(str), () => null),
+});
+
+const appState = object<AppState>("a budget", {
+  ...dataShape,
+  members: opt(list(member)),
+  log: opt(list(auditEntry)),
+  snapshots: opt(list(snapshot)),
+});
+
+// Later records reusing an id would be merged into each other; keep the first.
+function uniqueById<T extends { id: string }>(records: T[], path: string, issues: SchemaIssue[]): T[] {
+  const seen = new Set<string>();
+  return records.filter((r, i) => {
+    if (!seen.has(r.id)) { seen.add(r.id); return true; }
+    issues.push({ path: `${path}[${i}]`, message: `duplicate id "${r.id}"; removed` });
+    return false;
+  });
+}
+
+export function validateState(raw: unknown): Validation {
+  if (!isObj(raw)) return { state: null, issues: [{ path: "", message: "not a budget (expected an object)" }] };
+  if (!Array.isArray(raw.buckets) && !Array.isArray(raw.txns)) {
+    return { state: null, issues: [{ path: "", message: "no list of buckets or transactions" }] };
+  }
+  const issues: SchemaIssue[] = [];
+  const parsed = appState.parse(raw, "", issues);
+  if (parsed === INVALID) return { state: null, issues };
+  let state: AppState = {
+    ...parsed,
+    buckets: uniqueById(parsed.buckets, "buckets", issues),
+    txns: uniqueById(parsed.txns, "txns", issues),
+  };
+  // the UI needs exactly one income bucket: extra ones become regular buckets
+  let incomeSeen = false;
+  state = {
+    ...state,
+    buckets: state.buckets.map((b) => {
+      if (!b.isIncome) return b;
+      if (!incomeSeen) { incomeSeen = true; return b; }
+      issues.push({ path: "buckets", message: `"${b.name}" was a second income bucket; now a regular bucket` });
+      return { ...b, isIncome: false };
+    }),
+  };
+  if (!incomeSeen) {
+    const ids = new Set(state.buckets.map((b) => b.id));
+    let id = "income";
+    for (let n = 2; ids.has(id); n++) id = `income-${n}`;
+    state = { ...state, buckets: [{ id, name: "Income", allocations: {}, isIncome: true }, ...state.buckets] };
+    issues.push({ path: "buckets", message: "no income bucket; added one" });
+  }
+  return { state, issues };
+}
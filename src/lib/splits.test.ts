@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { amountInBucket, splitRemainder, splitsAreValid } from "./splits";
+import type { Txn } from "./types";
+
+const groceries: Txn = { id: "t1", date: "2024-03-02", description: "Superstore", amount: -100, bucketId: null };
+const part = (id: string, bucketId: string | null, amount: number) => ({ id, bucketId, amount });
+
+describe("splitRemainder", () => {
+  it("is what's left of the parent, without float dust", () => {
+    expect(splitRemainder(-100, [part("a", "food", -60.1), part("b", "home", -39.9)])).toBe(0);
+    expect(splitRemainder(-100, [part("a", "food", -60)])).toBe(-40);
+    expect(splitRemainder(-0.3, [part("a", "food", -0.1), part("b", "fun", -0.2)])).toBe(0);
+  });
+});
+
+describe("splitsAreValid", () => {
+  it("needs two or more parts, each with a bucket, that add up to the parent", () => {
+    expect(splitsAreValid(groceries, [part("a", "food", -60), part("b", "home", -40)])).toBe(true);
+    expect(splitsAreValid(groceries, [part("a", "food", -100)])).toBe(false);
+    expect(splitsAreValid(groceries, [part("a", "food", -60), part("b", null, -40)])).toBe(false);
+    expect(splitsAreValid(groceries, [part("a", "food", -60), part("b", "home", -30)])).toBe(false);
+  });
+
+  it("rejects empty parts and parts with the wrong sign", () => {
+    expect(splitsAreValid(groceries, [part("a", "food", -100), part("b", "home", 0)])).toBe(false);
+    expect(splitsAreValid(groceries, [part("a", "food", -120), part("b", "home", 20)])).toBe(false);
+  });
+
+  it("counts each part toward its own bucket", () => {
+    const split = { ...groceries, splits: [part("a", "food", -60), part("b", "home", -40)] };
+    expect(amountInBucket(split, "food")).toBe(-60);
+    expect(amountInBucket(split, "fun")).toBe(0);
+  });
+});
@@ -0,0 +1,41 @@
+// src/lib/splits.ts
+// Split transactions: one bank line divided across several buckets.
+// A split txn keeps bucketId = null and carries its parts in `splits`;
+// everything that sums money per bucket should go through txnAllocations().
+import type { ID, Txn, TxnSplit } from "./types";
+
+export type Allocation = { bucketId: ID | null; amount: number };
+
+function cents(n: number) { return Math.round(n * 100) / 100; }
+
+export function isSplit(t: Txn): boolean {
+  return !!t.splits && t.splits.length > 0;
+}
+
+// A txn still waiting for a bucket (split txns are fully allocated by definition).
+export function isUnassigned(t: Txn): boolean {
+  return t.bucketId === null && !isSplit(t);
+}
+
+export function txnAllocations(t: Txn): Allocation[] {
+  return isSplit(t) ? t.splits! : [{ bucketId: t.bucketId, amount: t.amount }];
+}
+
+export function amountInBucket(t: Txn, bucketId: ID): number {
+  return txnAllocations(t).reduce((s, a) => (a.bucketId === bucketId ? s + a.amount : s), 0);
+}
+
+export function touchesBucket(t: Txn, bucketId: ID): boolean {
+  return txnAllocations(t).some((a) => a.bucketId === bucketId);
+}
+
+// Amount of the parent not yet given to a split part (0 when fully allocated).
+export function splitRemainder(amount: number, splits: Pick<TxnSplit, "amount">[]): number {
+  return cents(amount - splits.reduce((s, p) => s + p.amount, 0));
+}
+
+export function splitsAreValid(t: Pick<Txn, "amount">, splits: TxnSplit[]): boolean {
+  return splits.length >= 2 &&
+    splits.every((p) => p.bucketId !== null && p.amount !== 0 && Math.sign(p.amount) === Math.sign(t.amount)) &&
+    splitRemainder(t.amount, splits) === 0;
+}
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  checkHousehold, createMemoryStatesTable, loadFromCloud, loadState, pullFromCloud, saveResolved, saveState, saveSynced, saveToCloud,
+  setStatesTable,
+} from "./storage";
+import { mergeStates } from "./merge";
+import type { StatesTable } from "./storage";
+import { CURRENT_VERSION } from "./migrations";
+import type { AppState, Txn } from "./types";
+
+// The sync bases and the local copy live in localStorage when there's no IndexedDB.
+function memoryStorage(): Pick<Storage, "getItem" | "setItem" | "removeItem"> {
+  const items = new Map<string, string>();
+  return {
+    getItem: (k) => items.get(k) ?? null,
+    setItem: (k, v) => { items.set(k, v); },
+    removeItem: (k) => { items.delete(k); },
+  };
+}
+
+const PASSPHRASE = "correct horse battery staple";
+
+const txn = (id: string, description: string): Txn =>
+  ({ id, date: "2024-03-01", description, amount: -10, bucketId: null, accountId: "acct" });
+
+const start: AppState = {
+  version: CURRENT_VERSION,
+  buckets: [
+    { id: "income", name: "Income", allocations: {}, isIncome: true },
+    { id: "food", name: "Food", allocations: { "2024-03": 400 } },
+  ],
+  txns: [txn("t1", "Cafe"), txn("t2", "Grocer")],
+  accounts: [{ id: "acct", name: "Checking", kind: "checking", openingBalance: 0 }],
+};
+
+function assign(s: AppState, id: string, bucketId: string): AppState {
+  return { ...s, txns: s.txns.map((t) => (t.id === id ? { ...t, bucketId } : t)) };
+}
+
+let household = 0;
+let hh = "";
+let table: StatesTable;
+
+beforeEach(() => {
+  vi.stubGlobal("window", { localStorage: memoryStorage() });
+  table = createMemoryStatesTable();
+  setStatesTable(table);
+  hh = `household-${household++}`;
+});
+
+afterEach(() => {
+  setStatesTable(null);
+  vi.unstubAllGlobals();
+});
+
+describe("saveState against the states table", () => {
+  it("creates the row, then writes conditionally on the revision it last saw", async () => {
+    expect(await saveState(start, hh, PASSPHRASE)).toEqual({ ok: true, state: start });
+    expect((await table.fetch(hh))?.revision).toBe(1);
+    const next = assign(start, "t1", "food");
+    expect(await saveState(next, hh, PASSPHRASE)).toEqual({ ok: true, state: next });
+    expect((await table.fetch(hh))?.revision).toBe(2);
+    expect(await loadFromCloud(hh, PASSPHRASE)).toEqual(next);
+  });
+
+  it("stores only ciphertext", async () => {
+    await saveState(start, hh, PASSPHRASE);
+    expect(JSON.stringify((await table.fetch(hh))?.payload)).not.toContain("Grocer");
+  });
+
+  it("merges a save another device made in between and retries", async () => {
+    await saveState(start, hh, PASSPHRASE);
+    // the other device writes revision 2 without this device's base moving
+    expect(await saveToCloud(hh, PASSPHRASE, assign(start, "t2", "food"), 1)).toEqual({ ok: true, revision: 2 });
+
+    const result = await saveState(assign(start, "t1", "food"), hh, PASSPHRASE);
+    const both = assign(assign(start, "t1", "food"), "t2", "food");
+    expect(result).toEqual({ ok: true, state: both });
+    expect((await table.fetch(hh))?.revision).toBe(3);
+    expect(await loadFromCloud(hh, PASSPHRASE)).toEqual(both);
+  });
+
+  it("hands clashing edits back, and saves the user's resolution on top of the other copy", async () => {
+    await saveState(start, hh, PASSPHRASE);
+    await saveToCloud(hh, PASSPHRASE, assign(start, "t1", "income"), 1);
+
+    const result = await saveState(assign(start, "t1", "food"), hh, PASSPHRASE);
+    if (result.ok) throw new Error("expected a conflict");
+    expect(result.conflict.revision).toBe(2);
+    expect(result.conflict.conflicts.map((c) => `${c.collection}:${c.id}`)).toEqual(["txns:t1"]);
+    // nothing was overwritten while waiting on the user
+    expect((await loadFromCloud(hh, PASSPHRASE))?.txns[0].bucketId).toBe("income");
+
+    const resolved = assign(start, "t1", "income");
+    expect(await saveResolved(resolved, result.conflict, hh, PASSPHRASE)).toEqual({ ok: true, state: resolved });
+    expect((await table.fetch(hh))?.revision).toBe(3);
+  });
+});
+
+describe("loadState", () => {
+  it("adopts the cloud copy on a device that has never synced the household", async () => {
+    await saveToCloud(hh, PASSPHRASE, assign(start, "t2", "food"), null);
+    const loaded = await loadState(hh, PASSPHRASE);
+    expect(loaded).toEqual({ state: assign(start, "t2", "food"), repairs: [] });
+  });
+
+  it("merges unsynced local edits with what the other device saved", async () => {
+    await saveState(start, hh, PASSPHRASE);
+    await saveState(assign(start, "t1", "food"), null, null); // offline edit, local only
+    await saveToCloud(hh, PASSPHRASE, assign(start, "t2", "food"), 1);
+    const loaded = await loadState(hh, PASSPHRASE);
+    expect(loaded?.state.txns.map((t) => t.bucketId)).toEqual(["food", "food"]);
+  });
+
+  it("keeps another device's changes after a realtime pull and a reload", async () => {
+    await saveState(start, hh, PASSPHRASE);
+    // the other device edits a txn and adds one
+    const theirs = { ...assign(start, "t2", "food"), txns: [...assign(start, "t2", "food").txns, txn("t3", "Bakery")] };
+    await saveToCloud(hh, PASSPHRASE, theirs, 1);
+
+    // this device pulls it in (as the realtime handler does), with nothing pending
+    const pulled = await pullFromCloud(hh, PASSPHRASE);
+    if (!pulled) throw new Error("expected a cloud copy");
+    const merged = mergeStates(pulled.base, start, pulled.remote);
+    await saveSynced(hh, merged, pulled.remote, pulled.revision);
+
+    // reload: nothing here may read as a local edit that reverts theirs
+    const loaded = await loadState(hh, PASSPHRASE);
+    expect(loaded?.state).toEqual(theirs);
+  });
+
+  it("falls back to this device's copy while the cloud can't be reached", async () => {
+    await saveState(start, hh, PASSPHRASE);
+    await saveState(assign(start, "t1", "food"), null, null); // offline edit, local only
+    setStatesTable({ ...table, fetch: () => Promise.reject(new TypeError("Failed to fetch")) });
+    expect(await loadState(hh, PASSPHRASE)).toEqual({ state: assign(start, "t1", "food"), repairs: [], offline: true });
+
+    // back online: the first save merges whatever the other device wrote meanwhile
+    setStatesTable(table);
+    await saveToCloud(hh, PASSPHRASE, assign(start, "t2", "food"), 1);
+    const saved = await saveState(assign(start, "t1", "food"), hh, PASSPHRASE);
+    expect(saved).toEqual({ ok: true, state: assign(assign(start, "t1", "food"), "t2", "food") });
+  });
+
+  it("doesn't mistake a refused read for a household with no cloud copy", async () => {
+    await saveState(start, hh, PASSPHRASE);
+    setStatesTable({ ...table, fetch: () => Promise.reject(Object.assign(new Error("permission denied"), { code: "42501" })) });
+    await expect(loadState(hh, PASSPHRASE)).rejects.toThrow("permission denied");
+  });
+});
+
+describe("checkHousehold", () => {
+  it("tells a new household from a wrong passphrase", async () => {
+    expect(await checkHousehold(hh, PASSPHRASE)).toBe("new");
+    await saveState(start, hh, PASSPHRASE);
+    expect(await checkHousehold(hh, PASSPHRASE)).toBe("ok");
+    expect(await checkHousehold(hh, "wrong")).toBe("wrong-passphrase");
+  });
+
+  it("doesn't mistake a failed read for a new household", async () => {
+    setStatesTable({ ...table, fetch: () => Promise.reject(new Error("permission denied")) });
+    await expect(checkHousehold(hh, PASSPHRASE)).rejects.toThrow("permission denied");
+  });
+});
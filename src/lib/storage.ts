@@ -1,65 +1,537 @@
 // src/lib/storage.ts
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
-import { encryptJSON, decryptJSON } from "./crypto";
-
-// You can tighten this later; keeping it generic avoids coupling.
-export type AppState = any;
+import {
+  createKeyring, decryptJSON, decryptWithKeyring, encryptWithKeyring, generateRecoveryKey, isWrongSecret,
+  openKeyring, openWithRecoveryKey, passphraseInUse, payloadVersion, withPassphrase, withRecoveryKey, withoutMember,
+} from "./crypto";
+import type { Keyring, OpenedKeyring } from "./crypto";
+import { indexedDBAvailable, isLocked, readBase, readState, writeBase, writeState } from "./localdb";
+import { findConflicts, mergeStates } from "./merge";
+import type { RecordConflict } from "./merge";
+import { prepareState, repairError } from "./migrations";
+import type { RepairReport } from "./migrations";
+import type { AppState } from "./types";
 
+// pre-IndexedDB home of the local copy; only read to migrate it
 const LOCAL_STORAGE_KEY = "trowbridge-budget-state";
+// last state this device saw in the cloud (and its revision), per household:
+// the base for three-way merges and the revision our next write expects.
+// Kept in IndexedDB now; this localStorage prefix is where older versions put it.
+const BASE_KEY_PREFIX = "trowbridge-budget-base:";
 
 function hasLocalStorage(): boolean {
   try { return typeof window !== "undefined" && !!window.localStorage; } catch { return false; }
 }
 
 // --- Local (offline-first) ---
-export async function loadLocal(): Promise<AppState | null> {
+// IndexedDB (see lib/localdb) when the browser has it; older versions kept the
+// whole state as one JSON string in localStorage, which is migrated on first load.
+function loadLegacyLocal(): Record<string, unknown> | null {
   if (!hasLocalStorage()) return null;
   try {
     const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
     return raw ? JSON.parse(raw) : null;
   } catch { return null; }
 }
+
+// Returns the stored state as it is on disk; loadState checks and migrates it.
+export async function loadLocal(): Promise<unknown> {
+  if (!indexedDBAvailable()) return loadLegacyLocal();
+  try {
+    const stored = await readState();
+    if (stored) return stored;
+    const legacy = loadLegacyLocal();
+    if (legacy) {
+      await writeState(legacy);
+      window.localStorage.removeItem(LOCAL_STORAGE_KEY);
+    }
+    return legacy;
+  } catch (error) {
+    if (isLocked()) throw error;
+    console.error("Could not read the local database:", error);
+    return loadLegacyLocal();
+  }
+}
+
+// Throws when the write doesn't stick (e.g. storage quota), so callers can say so.
 export async function saveLocal(state: AppState): Promise<void> {
+  if (indexedDBAvailable()) return writeState(state);
   if (!hasLocalStorage()) return;
-  try { window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(state)); } catch {}
+  window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(state));
+}
+
+type SyncBase = { state: unknown; revision: number | null };
+
+function normalizeBase(parsed: unknown): SyncBase {
+  // bases written before revisions existed are a bare state
+  if (parsed && typeof parsed === "object" && "revision" in parsed && "state" in parsed) return parsed as SyncBase;
+  return { state: parsed ?? null, revision: null };
+}
+
+// Bases live next to the local copy (and share its lock); older ones in localStorage.
+async function loadBase(householdId: string): Promise<SyncBase> {
+  if (indexedDBAvailable()) {
+    try {
+      const stored = await readBase(householdId);
+      if (stored) return normalizeBase(stored);
+    } catch (error) {
+      if (isLocked()) throw error;
+      console.error("Could not read the sync base:", error);
+    }
+  }
+  if (!hasLocalStorage()) return { state: null, revision: null };
+  try {
+    const raw = window.localStorage.getItem(BASE_KEY_PREFIX + householdId);
+    return normalizeBase(raw ? JSON.parse(raw) : null);
+  } catch { return { state: null, revision: null }; }
+}
+export async function saveBase(householdId: string, state: AppState, revision: number | null): Promise<void> {
+  // best effort: without a base the next load adopts the cloud copy
+  try {
+    if (indexedDBAvailable()) {
+      await writeBase(householdId, { state, revision });
+      if (hasLocalStorage()) window.localStorage.removeItem(BASE_KEY_PREFIX + householdId);
+    } else if (hasLocalStorage()) {
+      window.localStorage.setItem(BASE_KEY_PREFIX + householdId, JSON.stringify({ state, revision }));
+    }
+  } catch (error) {
+    console.error("Could not save the sync base:", error);
+  }
+}
+
+// The stored base must never get ahead of the stored local copy: on the next
+// load, everything between them would read as edits made here and undo the
+// other device's changes. So the local copy goes first, and the base only
+// moves once it's written.
+export async function saveSynced(householdId: string, local: AppState, base: AppState, revision: number): Promise<void> {
+  try {
+    await saveLocal(local);
+  } catch (error) {
+    console.error("Local save failed:", error);
+    return;
+  }
+  await saveBase(householdId, base, revision);
 }
 
-// --- Supabase client ---
+// --- Cloud table ---
+// One encrypted row per household in `states`, with a `revision` counter that
+// every write bumps. Writes are conditional on the revision the writer last
+// saw, so nobody overwrites a save they haven't merged. The app only needs
+// these three operations, so tests and local development can swap in
+// createMemoryStatesTable().
+export type StatesRow = { payload: unknown; revision: number };
+export type WriteResult = { ok: true; revision: number } | { ok: false };
+
+export type StatesTable = {
+  fetch(householdId: string): Promise<StatesRow | null>;
+  // expectedRevision null = the row must not exist yet
+  write(householdId: string, payload: unknown, expectedRevision: number | null): Promise<WriteResult>;
+  // calls onChange whenever the household's row is written (by any device)
+  subscribe(householdId: string, onChange: () => void): () => void;
+};
+
+let client: SupabaseClient | null | undefined;
 function getSupabase(): SupabaseClient | null {
+  if (client !== undefined) return client;
   const url = (window as any)?.SUPABASE_URL;
   const key = (window as any)?.SUPABASE_ANON_KEY;
   if (!url || !key) return null;
-  try { return createClient(url, key); } catch { return null; }
+  try { client = createClient(url, key); } catch { client = null; }
+  return client;
+}
+
+// The `revision` column and realtime come from supabase/migrations. Rows saved
+// before that migration ran have a NULL revision, read as 0.
+function supabaseStatesTable(sb: SupabaseClient): StatesTable {
+  return {
+    // errors throw: only a missing row means the household is new
+    async fetch(householdId) {
+      const { data, error } = await sb.from("states").select("payload, revision").eq("household_id", householdId).maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+      return { payload: data.payload, revision: data.revision ?? 0 };
+    },
+    async write(householdId, payload, expectedRevision) {
+      if (expectedRevision === null) {
+        const { error } = await sb.from("states").insert({ household_id: householdId, payload, revision: 1 });
+        if (error?.code === "23505") return { ok: false }; // someone created it first
+        if (error) throw error;
+        return { ok: true, revision: 1 };
+      }
+      const update = sb
+        .from("states")
+        .update({ payload, revision: expectedRevision + 1 })
+        .eq("household_id", householdId);
+      const { data, error } = await (expectedRevision === 0 ? update.is("revision", null) : update.eq("revision", expectedRevision))
+        .select("revision");
+      if (error) throw error;
+      return data?.length ? { ok: true, revision: expectedRevision + 1 } : { ok: false };
+    },
+    subscribe(householdId, onChange) {
+      const channel = sb
+        .channel(`states:${householdId}`)
+        .on("postgres_changes", { event: "*", schema: "public", table: "states", filter: `household_id=eq.${householdId}` }, () => onChange())
+        .subscribe();
+      return () => { sb.removeChannel(channel); };
+    },
+  };
 }
-export function cloudAvailable(): boolean { return !!getSupabase(); }
+
+// In-memory stand-in for the `states` table (tests, offline development).
+export function createMemoryStatesTable(): StatesTable {
+  const rows = new Map<string, StatesRow>();
+  const listeners = new Map<string, Set<() => void>>();
+  return {
+    async fetch(householdId) {
+      const row = rows.get(householdId);
+      return row ? structuredClone(row) : null;
+    },
+    async write(householdId, payload, expectedRevision) {
+      const current = rows.get(householdId)?.revision ?? null;
+      if (current !== expectedRevision) return { ok: false };
+      const revision = (current ?? 0) + 1;
+      rows.set(householdId, { payload: structuredClone(payload), revision });
+      listeners.get(householdId)?.forEach((fn) => setTimeout(fn, 0));
+      return { ok: true, revision };
+    },
+    subscribe(householdId, onChange) {
+      if (!listeners.has(householdId)) listeners.set(householdId, new Set());
+      listeners.get(householdId)!.add(onChange);
+      return () => { listeners.get(householdId)?.delete(onChange); };
+    },
+  };
+}
+
+let tableOverride: StatesTable | null = null;
+export function setStatesTable(table: StatesTable | null): void { tableOverride = table; }
+
+function getStatesTable(): StatesTable | null {
+  if (tableOverride) return tableOverride;
+  const sb = getSupabase();
+  return sb ? supabaseStatesTable(sb) : null;
+}
+export function cloudAvailable(): boolean { return !!getStatesTable(); }
 
 // --- Cloud load/save (encrypted) ---
+// The row holds a v3 envelope (see lib/crypto): the state under a data key that
+// is wrapped by the household passphrase, each member's passphrase and, once a
+// recovery kit exists, a recovery key. The opened keyring is kept per household
+// so saves reuse the data key and carry the other slots along.
+const keyrings = new Map<string, { passphrase: string } & OpenedKeyring>();
+
+const WRONG_PASSPHRASE = "That passphrase doesn't open this household's budget.";
+
+function slotOf(keyring: Keyring, memberId: string | null) {
+  return memberId === null ? keyring.slots.passphrase : keyring.slots.members?.[memberId];
+}
+
+async function openedFor(householdId: string, passphrase: string, payload: string): Promise<OpenedKeyring> {
+  const slots = JSON.parse(payload).slots;
+  const cached = keyrings.get(householdId);
+  if (cached && cached.passphrase === passphrase &&
+      JSON.stringify(slotOf(cached.keyring, cached.memberId)) === JSON.stringify(slotOf({ ...cached.keyring, slots }, cached.memberId))) {
+    // same data key; pick up slots other devices may have added or removed
+    const opened = { keyring: { ...cached.keyring, slots }, memberId: cached.memberId };
+    keyrings.set(householdId, { passphrase, ...opened });
+    return opened;
+  }
+  const opened = await openKeyring(payload, passphrase).catch((error) => {
+    throw isWrongSecret(error) ? new Error(WRONG_PASSPHRASE) : error;
+  });
+  keyrings.set(householdId, { passphrase, ...opened });
+  return opened;
+}
+
+async function keyringFor(householdId: string, passphrase: string, payload: string): Promise<Keyring> {
+  return (await openedFor(householdId, passphrase, payload)).keyring;
+}
+
+// Which member the passphrase belongs to, once the household has been opened
+// with it (null = the shared household passphrase).
+export function connectedMember(householdId: string, passphrase: string): string | null {
+  const cached = keyrings.get(householdId);
+  return cached?.passphrase === passphrase ? cached.memberId : null;
+}
+
+async function decryptRow(householdId: string, passphrase: string, payload: string): Promise<unknown> {
+  if (payloadVersion(payload) === 3) return decryptWithKeyring(await keyringFor(householdId, passphrase, payload), payload);
+  // v1/v2 have no check value: any failure most likely means the wrong passphrase
+  return decryptJSON(passphrase, payload).catch((error) => {
+    console.error("Decrypting the cloud copy failed:", error);
+    throw new Error(WRONG_PASSPHRASE);
+  });
+}
+
+// Keyring to encrypt the next save with; a brand-new household (or a v1/v2 row
+// being upgraded) gets a fresh data key.
+async function keyringForWrite(table: StatesTable, householdId: string, passphrase: string): Promise<Keyring> {
+  const cached = keyrings.get(householdId);
+  if (cached?.passphrase === passphrase) return cached.keyring;
+  const row = await table.fetch(householdId);
+  const payload = row ? JSON.stringify(row.payload) : null;
+  if (payload && payloadVersion(payload) === 3) return keyringFor(householdId, passphrase, payload);
+  const keyring = await createKeyring(passphrase);
+  keyrings.set(householdId, { passphrase, keyring, memberId: null });
+  return keyring;
+}
+
+// The server answered and said no (row-level security, a bad or expired key);
+// unlike a dropped connection, trying again later won't help.
+function isRefused(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && (code === "42501" || code.startsWith("PGRST3"));
+}
+
+const CLOUD_UNREACHABLE = "Couldn't reach the cloud copy";
+
+export function isCloudUnreachable(error: unknown): boolean {
+  return error instanceof Error && error.message === CLOUD_UNREACHABLE;
+}
+
+async function fetchFromCloud(householdId: string, passphrase: string): Promise<{ state: unknown; revision: number } | null> {
+  const table = getStatesTable(); if (!table) return null;
+  const row = await table.fetch(householdId).catch((error: unknown) => {
+    throw isRefused(error) ? error : new Error(CLOUD_UNREACHABLE, { cause: error });
+  });
+  if (!row) return null;
+  const state = await decryptRow(householdId, passphrase, JSON.stringify(row.payload));
+  return { state, revision: row.revision };
+}
+
 export async function loadFromCloud(householdId: string, passphrase: string): Promise<AppState | null> {
-  const sb = getSupabase(); if (!sb) return null;
-  const { data, error } = await sb.from("states").select("payload").eq("household_id", householdId).maybeSingle();
-  if (error || !data) return null;
-  const encryptedString = JSON.stringify(data.payload);
-  const state = await decryptJSON(passphrase, encryptedString);
-  return state;
+  const fetched = await fetchFromCloud(householdId, passphrase);
+  return fetched ? prepare(fetched.state, "The cloud copy") : null;
+}
+
+// Conditional write: fails (ok: false) if the row moved past expectedRevision.
+export async function saveToCloud(householdId: string, passphrase: string, state: AppState, expectedRevision: number | null): Promise<WriteResult> {
+  const table = getStatesTable(); if (!table) return { ok: false };
+  const keyring = await keyringForWrite(table, householdId, passphrase);
+  const payload = JSON.parse(await encryptWithKeyring(keyring, state));
+  return table.write(householdId, payload, expectedRevision);
+}
+
+// Before connecting: does the household exist, and does the passphrase open it?
+// Lets the app confirm before a mistyped household code creates a new row.
+export type HouseholdCheck = "ok" | "new" | "wrong-passphrase";
+export async function checkHousehold(householdId: string, passphrase: string): Promise<HouseholdCheck> {
+  const table = getStatesTable(); if (!table) return "ok";
+  const row = await table.fetch(householdId);
+  if (!row) return "new";
+  try {
+    await decryptRow(householdId, passphrase, JSON.stringify(row.payload));
+    return "ok";
+  } catch (error) {
+    if (error instanceof Error && error.message === WRONG_PASSPHRASE) return "wrong-passphrase";
+    throw error;
+  }
+}
+
+// Rewrite the row with a new set of key slots, in a single write conditional on
+// the revision that was read: a save landing in between is never lost or left
+// under the old keys, we just go again. The sync base is left alone, so our
+// next save still merges anything we haven't seen.
+async function rewrapRow(householdId: string, rewrap: (payload: string) => Promise<{ state: unknown; keyring: Keyring }>): Promise<Keyring> {
+  const table = getStatesTable();
+  if (!table) throw new Error("Cloud sync isn't configured");
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const row = await table.fetch(householdId);
+    if (!row) throw new Error("Nothing has been saved to the cloud for this household yet");
+    const { state, keyring } = await rewrap(JSON.stringify(row.payload));
+    const payload = JSON.parse(await encryptWithKeyring(keyring, state));
+    if ((await table.write(householdId, payload, row.revision)).ok) return keyring;
+  }
+  throw new Error("The cloud copy kept changing. Please try again.");
+}
+
+// Current keyring of a row, upgrading a v1/v2 row to a data key on the way.
+async function rowKeyring(householdId: string, passphrase: string, payload: string): Promise<OpenedKeyring> {
+  return payloadVersion(payload) === 3
+    ? openedFor(householdId, passphrase, payload)
+    : { keyring: await createKeyring(passphrase), memberId: null };
+}
+
+async function assertUnused(keyring: Keyring, passphrase: string) {
+  if (await passphraseInUse(keyring, passphrase)) throw new Error("Someone in the household already uses that passphrase. Pick another.");
+}
+
+// Changes whichever passphrase `oldPassphrase` is: the household's or the member's own.
+export async function changePassphrase(householdId: string, oldPassphrase: string, newPassphrase: string): Promise<void> {
+  let memberId: string | null = null;
+  const keyring = await rewrapRow(householdId, async (payload) => {
+    const state = await decryptRow(householdId, oldPassphrase, payload);
+    const opened = await rowKeyring(householdId, oldPassphrase, payload);
+    await assertUnused(opened.keyring, newPassphrase);
+    memberId = opened.memberId;
+    return { state, keyring: await withPassphrase(opened.keyring, newPassphrase, memberId) };
+  });
+  keyrings.set(householdId, { passphrase: newPassphrase, keyring, memberId });
+}
+
+// Give a member a key slot of their own (or reset their passphrase).
+export async function setMemberPassphrase(householdId: string, passphrase: string, memberId: string, memberPassphrase: string): Promise<void> {
+  const keyring = await rewrapRow(householdId, async (payload) => {
+    const state = await decryptRow(householdId, passphrase, payload);
+    const opened = await rowKeyring(householdId, passphrase, payload);
+    const others = withoutMember(opened.keyring, memberId);
+    await assertUnused(others, memberPassphrase);
+    return { state, keyring: await withPassphrase(others, memberPassphrase, memberId) };
+  });
+  keyrings.set(householdId, { passphrase, keyring, memberId: connectedMember(householdId, passphrase) });
 }
 
-export async function saveToCloud(householdId: string, passphrase: string, state: AppState): Promise<void> {
-  const sb = getSupabase(); if (!sb) return;
-  const encrypted = await encryptJSON(passphrase, state);
-  const payload = JSON.parse(encrypted);
-  const { error } = await sb.from("states").upsert({ household_id: householdId, payload });
-  if (error) throw error;
+// Take a member's key slot away; their passphrase no longer opens the household.
+// The data key stays the same (the other slots can only be rewrapped with their
+// own secrets), so this doesn't lock out someone who kept the key or a copy.
+export async function removeMemberKey(householdId: string, passphrase: string, memberId: string): Promise<void> {
+  const keyring = await rewrapRow(householdId, async (payload) => {
+    const state = await decryptRow(householdId, passphrase, payload);
+    const opened = await rowKeyring(householdId, passphrase, payload);
+    return { state, keyring: withoutMember(opened.keyring, memberId) };
+  });
+  keyrings.set(householdId, { passphrase, keyring, memberId: connectedMember(householdId, passphrase) });
+}
+
+// Add (or replace) the household's recovery key; returns it for the printable kit.
+export async function createRecoveryKey(householdId: string, passphrase: string): Promise<string> {
+  const recoveryKey = generateRecoveryKey();
+  const keyring = await rewrapRow(householdId, async (payload) => {
+    const state = await decryptRow(householdId, passphrase, payload);
+    return { state, keyring: await withRecoveryKey((await rowKeyring(householdId, passphrase, payload)).keyring, recoveryKey) };
+  });
+  keyrings.set(householdId, { passphrase, keyring, memberId: connectedMember(householdId, passphrase) });
+  return recoveryKey;
+}
+
+// Forgotten passphrase: open the data key with the recovery key and wrap it under a new passphrase.
+export async function recoverWithKey(householdId: string, recoveryKey: string, newPassphrase: string): Promise<void> {
+  const keyring = await rewrapRow(householdId, async (payload) => {
+    if (payloadVersion(payload) !== 3) throw new Error("This household has no recovery key");
+    const opened = await openWithRecoveryKey(payload, recoveryKey).catch((error) => {
+      throw isWrongSecret(error) ? new Error("That recovery key doesn't match this household.") : error;
+    });
+    await assertUnused(opened, newPassphrase);
+    return { state: await decryptWithKeyring(opened, payload), keyring: await withPassphrase(opened, newPassphrase) };
+  });
+  keyrings.set(householdId, { passphrase: newPassphrase, keyring, memberId: null });
+}
+
+export function subscribeToCloud(householdId: string, onChange: () => void): () => void {
+  const table = getStatesTable();
+  return table ? table.subscribe(householdId, onChange) : () => {};
 }
 
 // --- High-level API used by the app ---
-export async function loadState(householdId: string | null, passphrase: string | null): Promise<AppState | null> {
+// Everything read back from storage or the cloud is validated and brought up to
+// the current schema (lib/migrations) before it is merged or shown. Repairs are
+// collected into `reports`; data beyond repair throws an error carrying its report.
+function prepare(raw: unknown, source: string, reports?: RepairReport[]): AppState {
+  const { state, report } = prepareState(raw, source);
+  if (report) {
+    console.warn(`${source}: ${report.fatal ? "unreadable" : "repaired"}`, report.issues);
+    reports?.push(report);
+  }
+  if (!state) throw repairError(report);
+  return state;
+}
+
+// A damaged base only costs the merge its history; fall back to adopting the cloud copy.
+function prepareBase(raw: unknown): AppState | null {
+  if (!raw) return null;
+  const { state } = prepareState(raw, "Sync base");
+  return state;
+}
+
+// offline: the cloud couldn't be reached, so this is the local copy as it was.
+// Saves are conditional on the base's revision, so the next one merges
+// whatever was missed.
+export type LoadedState = { state: AppState; repairs: RepairReport[]; offline?: boolean };
+
+export async function loadState(householdId: string | null, passphrase: string | null): Promise<LoadedState | null> {
+  const repairs: RepairReport[] = [];
+  const rawLocal = await loadLocal();
+  let local: AppState | null = null;
+  let localFailure: unknown = null;
+  try {
+    local = rawLocal ? prepare(rawLocal, "This device's copy", repairs) : null;
+  } catch (error) {
+    localFailure = error;
+  }
   if (householdId && passphrase && cloudAvailable()) {
-    const remote = await loadFromCloud(householdId, passphrase);
-    if (remote) { await saveLocal(remote); return remote; }
+    let fetched;
+    try {
+      fetched = await fetchFromCloud(householdId, passphrase);
+    } catch (error) {
+      if (!isCloudUnreachable(error) || !local) throw error;
+      console.warn("Loading the cloud copy failed; using this device's copy:", error);
+      return { state: local, repairs, offline: true };
+    }
+    if (fetched) {
+      const remote = prepare(fetched.state, "The cloud copy", repairs);
+      const base = prepareBase((await loadBase(householdId)).state);
+      // Without a base this device has never synced this household: adopt the cloud copy.
+      // An unreadable local copy is replaced by it too (its report says so).
+      const merged = base && local ? mergeStates(base, local, remote) : remote;
+      await saveSynced(householdId, merged, remote, fetched.revision);
+      return { state: merged, repairs };
+    }
   }
-  return await loadLocal();
+  if (localFailure) throw localFailure;
+  return local ? { state: local, repairs } : null;
 }
-export async function saveState(state: AppState, householdId?: string | null, passphrase?: string | null): Promise<void> {
-  await saveLocal(state);
-  if (householdId && passphrase && cloudAvailable()) await saveToCloud(householdId, passphrase, state);
+
+// Someone else saved first and both sides changed the same buckets/txns.
+// `merged` already holds every change that didn't clash.
+export type SaveConflict = { remote: AppState; revision: number; merged: AppState; conflicts: RecordConflict[] };
+export type SaveResult = { ok: true; state: AppState } | { ok: false; conflict: SaveConflict };
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+// Saves locally and, when connected, writes to the cloud only if nobody saved
+// since our last sync. If they did, their changes are merged in and the write
+// retried; clashing edits are handed back for the user to settle.
+export async function saveState(state: AppState, householdId?: string | null, passphrase?: string | null): Promise<SaveResult> {
+  // a failed local write shouldn't stop the cloud copy from being saved
+  const localError = await saveLocal(state).then(() => null, (e: unknown) => e);
+  if (!householdId || !passphrase || !cloudAvailable()) {
+    if (localError) throw localError;
+    return { ok: true, state };
+  }
+  if (localError) console.error("Local save failed:", localError);
+
+  let toSave = state;
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const base = await loadBase(householdId);
+    const written = await saveToCloud(householdId, passphrase, toSave, base.revision);
+    if (written.ok) {
+      if (toSave !== state || localError) await saveSynced(householdId, toSave, toSave, written.revision);
+      else await saveBase(householdId, toSave, written.revision);
+      return { ok: true, state: toSave };
+    }
+    const fetched = await fetchFromCloud(householdId, passphrase);
+    if (!fetched) throw new Error("Cloud copy disappeared while saving");
+    const remote = prepare(fetched.state, "The cloud copy");
+    const baseState = prepareBase(base.state);
+    const merged = mergeStates(baseState, toSave, remote);
+    const conflicts = findConflicts(baseState, toSave, remote);
+    if (conflicts.length) return { ok: false, conflict: { remote, revision: fetched.revision, merged, conflicts } };
+    // the cloud copy is our new base; retry with their changes folded in
+    await saveSynced(householdId, merged, remote, fetched.revision);
+    toSave = merged;
+  }
+  throw new Error("The cloud copy kept changing while saving. Please try again.");
+}
+
+// Save the user's resolution of a SaveConflict on top of the copy it was built from.
+export async function saveResolved(resolved: AppState, conflict: SaveConflict, householdId: string, passphrase: string): Promise<SaveResult> {
+  await saveSynced(householdId, resolved, conflict.remote, conflict.revision);
+  return saveState(resolved, householdId, passphrase);
+}
+
+// Latest cloud copy plus the base it should be merged against (for realtime updates).
+export async function pullFromCloud(householdId: string, passphrase: string): Promise<{ remote: AppState; base: AppState | null; revision: number } | null> {
+  const fetched = await fetchFromCloud(householdId, passphrase);
+  if (!fetched) return null;
+  const base = prepareBase((await loadBase(householdId)).state);
+  return { remote: prepare(fetched.state, "The cloud copy"), base, revision: fetched.revision };
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { detectSubscriptions, subscriptionToRecurring } from "./subscriptions";
+import type { Txn } from "./types";
+
+let n = 0;
+function charge(date: string, amount: number, description: string, extra: Partial<Txn> = {}): Txn {
+  return { id: `t${n++}`, date, amount, description, bucketId: "fun", ...extra };
+}
+
+const netflix = ["2024-01-15", "2024-02-15", "2024-03-15", "2024-04-15"].map((d) => charge(d, -15.49, "NETFLIX.COM"));
+
+describe("detectSubscriptions", () => {
+  it("finds a monthly charge with its next date and yearly cost", () => {
+    const [sub, ...rest] = detectSubscriptions(netflix, "2024-04-20");
+    expect(rest).toEqual([]);
+    expect(sub).toMatchObject({
+      key: "netflix com", cadence: "monthly", amount: -15.49, annualCost: 185.88, charges: 4,
+      firstDate: "2024-01-15", lastDate: "2024-04-15", nextDate: "2024-05-15", bucketId: "fun", missed: false,
+    });
+    expect(sub.priceIncrease).toBeUndefined();
+  });
+
+  it("flags a price increase", () => {
+    const txns = [...netflix.slice(0, 3), charge("2024-04-15", -17.99, "NETFLIX.COM")];
+    const [sub] = detectSubscriptions(txns, "2024-04-20");
+    expect(sub.priceIncrease).toEqual({ from: -15.49, to: -17.99 });
+    expect(sub.annualCost).toBe(215.88);
+  });
+
+  it("flags a charge that is overdue past the grace period", () => {
+    expect(detectSubscriptions(netflix, "2024-05-20")[0].missed).toBe(false);
+    expect(detectSubscriptions(netflix, "2024-05-30")[0].missed).toBe(true);
+    // three periods late: cancelled long ago, not listed
+    expect(detectSubscriptions(netflix, "2024-09-01")).toEqual([]);
+  });
+
+  it("finds weekly and yearly cadences, most expensive first", () => {
+    const weekly = ["2024-03-04", "2024-03-11", "2024-03-18", "2024-03-25"].map((d) => charge(d, -6, "GYM PASS"));
+    const yearly = [charge("2023-04-02", -99, "DOMAIN RENEWAL"), charge("2024-04-01", -99, "DOMAIN RENEWAL")];
+    const subs = detectSubscriptions([...weekly, ...yearly], "2024-04-03");
+    expect(subs.map((s) => [s.name, s.cadence, s.annualCost])).toEqual([
+      ["GYM PASS", "weekly", 312],
+      ["DOMAIN RENEWAL", "yearly", 99],
+    ]);
+    expect(subs[0].nextDate).toBe("2024-04-01");
+  });
+
+  it("ignores irregular spending, income, transfers and deleted txns", () => {
+    const txns = [
+      ...["2024-01-03", "2024-01-09", "2024-02-27", "2024-03-02"].map((d) => charge(d, -40, "CORNER CAFE")),
+      ...["2024-01-31", "2024-02-29", "2024-03-31"].map((d) => charge(d, 2500, "ACME PAYROLL")),
+      ...["2024-01-05", "2024-02-05", "2024-03-05"].map((d) => charge(d, -300, "TO SAVINGS", { transferPeerId: "x" })),
+      ...["2024-01-07", "2024-02-07", "2024-03-07"].map((d) => charge(d, -12, "OLD APP", { deleted: true })),
+    ];
+    expect(detectSubscriptions(txns, "2024-03-10")).toEqual([]);
+  });
+
+  it("skips dismissed merchants and ones already tracked as a recurring bill", () => {
+    expect(detectSubscriptions(netflix, "2024-04-20", ["netflix com"])).toEqual([]);
+    const tracked = [...netflix.slice(0, 3), { ...netflix[3], recurringId: "r1" }];
+    expect(detectSubscriptions(tracked, "2024-04-20")).toEqual([]);
+  });
+
+  it("doesn't let one odd charge from the same merchant break the pattern", () => {
+    const txns = [...netflix, charge("2024-03-20", -3.99, "NETFLIX.COM")];
+    expect(detectSubscriptions(txns, "2024-04-20")[0]).toMatchObject({ cadence: "monthly", charges: 4 });
+  });
+});
+
+describe("subscriptionToRecurring", () => {
+  it("continues the detected schedule from the last charge", () => {
+    const [sub] = detectSubscriptions(netflix, "2024-04-20");
+    expect(subscriptionToRecurring(sub, "r1")).toEqual({
+      id: "r1", name: "NETFLIX.COM", amount: -15.49, bucketId: "fun", cadence: "monthly",
+      interval: 1, startDate: "2024-04-15", matchText: "netflix com", enabled: true,
+    });
+  });
+});
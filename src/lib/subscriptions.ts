@@ -0,0 +1,124 @@
+// src/lib/subscriptions.ts
+// Finds forgotten subscriptions: charges from the same merchant, for about the
+// same amount, repeating weekly, monthly or yearly. Pure — the UI only renders
+// what detectSubscriptions() returns.
+import type { Cadence, ID, RecurringItem, Txn } from "./types";
+import { extractTitle, merchantKey } from "./merchant";
+import { occurrencesBetween } from "./recurring";
+import { addDays, daysBetween } from "./dates";
+
+export type DetectedSubscription = {
+  key: string;                 // merchant key; stable id for dismissing
+  name: string;
+  cadence: Cadence;
+  amount: number;              // latest charge (negative)
+  annualCost: number;          // positive
+  charges: number;
+  firstDate: string;
+  lastDate: string;
+  nextDate: string;            // next expected charge
+  bucketId: ID | null;         // bucket of the latest charge
+  priceIncrease?: { from: number; to: number };
+  missed: boolean;             // next expected charge is overdue
+};
+
+type CadenceSpec = { cadence: Cadence; days: number; min: number; max: number; minCharges: number; perYear: number; grace: number };
+
+const CADENCES: CadenceSpec[] = [
+  { cadence: "weekly", days: 7, min: 6, max: 8, minCharges: 4, perYear: 52, grace: 3 },
+  { cadence: "monthly", days: 30, min: 26, max: 35, minCharges: 3, perYear: 12, grace: 7 },
+  { cadence: "yearly", days: 365, min: 350, max: 380, minCharges: 2, perYear: 1, grace: 21 },
+];
+
+const AMOUNT_TOLERANCE = 0.25;   // charges within 25% of the median count as "the same"
+const REGULARITY = 0.75;         // share of gaps that must fit the cadence
+const INCREASE_THRESHOLD = 0.01; // ignore rounding-level changes
+
+function cents(n: number) { return Math.round(n * 100) / 100; }
+
+function median(xs: number[]): number {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function nextOccurrence(cadence: Cadence, lastDate: string): string {
+  const item: RecurringItem = { id: "", name: "", amount: 0, bucketId: null, cadence, interval: 1, startDate: lastDate, enabled: true };
+  return occurrencesBetween(item, addDays(lastDate, 1), addDays(lastDate, 400))[0];
+}
+
+function detectCadence(dates: string[]): CadenceSpec | null {
+  const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d)).filter((g) => g > 0);
+  if (!gaps.length) return null;
+  for (const spec of CADENCES) {
+    if (dates.length < spec.minCharges) continue;
+    const fitting = gaps.filter((g) => g >= spec.min && g <= spec.max).length;
+    if (fitting / gaps.length >= REGULARITY) return spec;
+  }
+  return null;
+}
+
+// `today` is an ISO date; passed in so results are deterministic.
+export function detectSubscriptions(txns: Txn[], today: string, dismissed: string[] = []): DetectedSubscription[] {
+  const skip = new Set(dismissed);
+  // merchants already tracked as a recurring item
+  txns.forEach((t) => { if (t.recurringId) skip.add(merchantKey(t.description)); });
+  const groups = new Map<string, Txn[]>();
+  txns.forEach((t) => {
+    if (t.deleted || t.amount >= 0 || t.transferPeerId) return;
+    const key = merchantKey(t.description);
+    if (!key || skip.has(key)) return;
+    const g = groups.get(key);
+    if (g) g.push(t); else groups.set(key, [t]);
+  });
+
+  const out: DetectedSubscription[] = [];
+  groups.forEach((group, key) => {
+    const sorted = [...group].sort((a, b) => a.date.localeCompare(b.date));
+    const typical = median(sorted.map((t) => Math.abs(t.amount)));
+    const similar = sorted.filter((t) => Math.abs(Math.abs(t.amount) - typical) <= typical * AMOUNT_TOLERANCE);
+    // collapse same-day duplicates so they don't break the rhythm
+    const charges = similar.filter((t, i) => i === 0 || t.date !== similar[i - 1].date);
+    const spec = detectCadence(charges.map((t) => t.date));
+    if (!spec) return;
+
+    const last = charges[charges.length - 1];
+    // the most recent charge at a different price, if any
+    const prev = [...charges].reverse().find((t) => Math.abs(t.amount - last.amount) >= 0.01) ?? last;
+    const nextDate = nextOccurrence(spec.cadence, last.date);
+    const overdue = daysBetween(nextDate, today);
+    if (overdue > spec.days * 3) return; // long since cancelled
+    const increased = Math.abs(last.amount) - Math.abs(prev.amount) > Math.abs(prev.amount) * INCREASE_THRESHOLD;
+    out.push({
+      key,
+      name: extractTitle(last.description),
+      cadence: spec.cadence,
+      amount: last.amount,
+      annualCost: cents(Math.abs(last.amount) * spec.perYear),
+      charges: charges.length,
+      firstDate: charges[0].date,
+      lastDate: last.date,
+      nextDate,
+      bucketId: last.splits?.length ? null : last.bucketId,
+      priceIncrease: increased ? { from: prev.amount, to: last.amount } : undefined,
+      missed: overdue > spec.grace,
+    });
+  });
+  return out.sort((a, b) => b.annualCost - a.annualCost);
+}
+
+// A recurring item that continues the detected schedule. The last charge's
+// date anchors it, so matching existing txns links that charge too.
+export function subscriptionToRecurring(sub: DetectedSubscription, id: ID): RecurringItem {
+  return {
+    id,
+    name: sub.name,
+    amount: sub.amount,
+    bucketId: sub.bucketId,
+    cadence: sub.cadence,
+    interval: 1,
+    startDate: sub.lastDate,
+    matchText: sub.key,
+    enabled: true,
+  };
+}
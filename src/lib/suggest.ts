@@ -0,0 +1,51 @@
+// src/lib/suggest.ts
+// Local merchant -> bucket suggestions learned from past assignments.
+// Every assigned txn is a vote for its bucket, weighted by recency, so the
+// model follows the household when a merchant moves to a different bucket.
+import type { ID, Txn } from "./types";
+import { merchantKey } from "./merchant";
+
+const HALF_LIFE_DAYS = 120;
+const MIN_CONFIDENCE = 0.5;
+
+export type SuggestionModel = Record<string, Record<ID, number>>; // merchantKey -> bucketId -> weight
+export type Suggestion = { bucketId: ID; confidence: number };
+
+function ageInDays(dateISO: string, now: Date): number {
+  const t = new Date(dateISO + "T00:00:00").getTime();
+  if (isNaN(t)) return 0;
+  return Math.max(0, (now.getTime() - t) / 86_400_000);
+}
+
+export function buildSuggestionModel(txns: Txn[], now = new Date()): SuggestionModel {
+  const model: SuggestionModel = {};
+  txns.forEach((t) => {
+    if (t.deleted || t.bucketId === null) return;
+    const key = merchantKey(t.description);
+    if (!key) return;
+    const weight = Math.pow(0.5, ageInDays(t.date, now) / HALF_LIFE_DAYS);
+    const votes = (model[key] ||= {});
+    votes[t.bucketId] = (votes[t.bucketId] || 0) + weight;
+  });
+  return model;
+}
+
+// Best bucket for a txn, or null when the merchant is unknown or the
+// history is too split between buckets to be useful.
+export function suggestBucket(model: SuggestionModel, txn: Txn, validBucketIds?: Set<ID>): Suggestion | null {
+  const votes = model[merchantKey(txn.description)];
+  if (!votes) return null;
+  let best: ID | null = null;
+  let bestWeight = 0;
+  let total = 0;
+  for (const [bucketId, w] of Object.entries(votes)) {
+    if (validBucketIds && !validBucketIds.has(bucketId)) continue;
+    total += w;
+    if (w > bestWeight) { best = bucketId; bestWeight = w; }
+  }
+  if (!best || total === 0) return null;
+  // shrink confidence for merchants we've only seen a little
+  const confidence = (bestWeight / total) * (total / (total + 0.5));
+  if (confidence < MIN_CONFIDENCE) return null;
+  return { bucketId: best, confidence };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { detectTransfers, linkTransfers } from "./transfers";
+import type { Txn } from "./types";
+
+const txn = (id: string, date: string, amount: number, accountId: string, bucketId: string | null = null): Txn =>
+  ({ id, date, description: id, amount, bucketId, accountId });
+
+describe("detectTransfers", () => {
+  it("pairs opposite amounts in different accounts a few days apart, closest first", () => {
+    const txns = [
+      txn("pay", "2024-03-01", -500, "checking"),
+      txn("far", "2024-03-05", 500, "card"),
+      txn("near", "2024-03-02", 500, "card"),
+      txn("same", "2024-03-01", 500, "checking"),
+    ];
+    expect(detectTransfers(txns)).toEqual([["pay", "near"]]);
+  });
+
+  it("pairs a fresh import that a rule already put in a bucket", () => {
+    const onFile = txn("pay", "2024-03-01", -500, "checking");
+    const fresh = txn("card", "2024-03-02", 500, "card", "income");
+    const pairs = detectTransfers([fresh, onFile], new Set(["card"]));
+    expect(pairs).toEqual([["pay", "card"]]);
+    expect(linkTransfers([fresh, onFile], pairs).map((t) => [t.bucketId, t.transferPeerId])).toEqual([[null, "pay"], [null, "card"]]);
+  });
+
+  it("doesn't pull a categorized txn on file into a transfer with a fresh import", () => {
+    const groceries = txn("groceries", "2024-03-01", -50, "card", "food");
+    const refund = txn("refund", "2024-03-02", 50, "checking");
+    expect(detectTransfers([refund, groceries], new Set(["refund"]))).toEqual([]);
+  });
+
+  it("leaves assigned txns alone when scanning the whole ledger", () => {
+    const txns = [txn("pay", "2024-03-01", -500, "checking", "bills"), txn("card", "2024-03-02", 500, "card")];
+    expect(detectTransfers(txns)).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+// src/lib/transfers.ts
+// Transfers between the household's own accounts (paying the card from
+// checking, moving money to savings). Both legs are linked through
+// transferPeerId and are left out of income, spending and bucket math.
+import type { ID, Txn } from "./types";
+import { dayNumber } from "./dates";
+import { isUnassigned } from "./splits";
+
+const TRANSFER_WINDOW_DAYS = 4;
+
+export function isTransfer(t: Txn): boolean {
+  return !!t.transferPeerId;
+}
+
+// Txns that count toward budgets: not deleted and not a transfer leg.
+export function isBudgetTxn(t: Txn): boolean {
+  return !t.deleted && !isTransfer(t);
+}
+
+function candidate(t: Txn): boolean {
+  return !t.deleted && !isTransfer(t) && !!t.accountId && t.amount !== 0;
+}
+
+// Pairs of txns in different accounts with exactly opposite amounts a few days
+// apart, as [outgoing, incoming]. Each txn is used at most once, closest dates first.
+// Txns on file only pair while unassigned, so linking never pulls one out of a
+// bucket the user (or a rule) put it in. When `among` is given, every pair must
+// include one of those txns (a fresh import), and they pair even when a rule
+// has just given them a bucket; linking takes them out again.
+export function detectTransfers(txns: Txn[], among?: Set<ID>): [ID, ID][] {
+  const pool = txns.filter((t) => candidate(t) && (isUnassigned(t) || !!among?.has(t.id)));
+  const byDay = new Map<number, Txn[]>();
+  pool.forEach((t) => {
+    const day = dayNumber(t.date);
+    const list = byDay.get(day);
+    if (list) list.push(t); else byDay.set(day, [t]);
+  });
+  // look around each new txn (or each outgoing one), not at every pair
+  const anchors = among ? pool.filter((t) => among.has(t.id)) : pool.filter((t) => t.amount < 0);
+  const options: { a: Txn; b: Txn; gap: number }[] = [];
+  const seen = new Set<string>();
+  anchors.forEach((x) => {
+    const day = dayNumber(x.date);
+    for (let d = day - TRANSFER_WINDOW_DAYS; d <= day + TRANSFER_WINDOW_DAYS; d++) {
+      byDay.get(d)?.forEach((y) => {
+        if (y.accountId === x.accountId || Math.round((x.amount + y.amount) * 100) !== 0) return;
+        const [a, b] = x.amount < 0 ? [x, y] : [y, x];
+        const key = `${a.id}|${b.id}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        options.push({ a, b, gap: Math.abs(d - day) });
+      });
+    }
+  });
+  options.sort((x, y) => x.gap - y.gap);
+  const used = new Set<ID>();
+  const pairs: [ID, ID][] = [];
+  options.forEach(({ a, b }) => {
+    if (used.has(a.id) || used.has(b.id)) return;
+    used.add(a.id); used.add(b.id);
+    pairs.push([a.id, b.id]);
+  });
+  return pairs;
+}
+
+export function linkTransfers(txns: Txn[], pairs: [ID, ID][]): Txn[] {
+  if (!pairs.length) return txns;
+  const peer = new Map<ID, ID>();
+  pairs.forEach(([a, b]) => { peer.set(a, b); peer.set(b, a); });
+  return txns.map((t) => (peer.has(t.id) ? { ...t, transferPeerId: peer.get(t.id), bucketId: null, splits: undefined } : t));
+}
+
+// Break the link on both legs; they go back to being ordinary unassigned txns.
+export function unlinkTransfer(txns: Txn[], id: ID): Txn[] {
+  const t = txns.find((x) => x.id === id);
+  if (!t?.transferPeerId) return txns;
+  const ids = new Set([id, t.transferPeerId]);
+  return txns.map((x) => (ids.has(x.id) ? { ...x, transferPeerId: undefined } : x));
+}
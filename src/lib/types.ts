@@ -0,0 +1,178 @@
+// src/lib/types.ts
+// Core budget records shared by the UI and the lib/ modules.
+
+export type ID = string;
+
+// none: every month starts fresh · surplus: unspent money carries forward ·
+// both: surplus and overspending carry · capped: surplus carries up to `cap`
+export type RolloverMode = "none" | "surplus" | "both" | "capped";
+
+export type Bucket = {
+  id: ID;
+  name: string;
+  category?: string; // For grouping in analytics
+  allocations: Record<string, number>; // monthKey -> allocation
+  isIncome?: boolean;
+  deletedMonths?: Record<string, boolean>;
+  rollover?: { mode: RolloverMode; cap?: number };
+  goal?: SavingsGoal;
+  createdBy?: ID;          // household member who added it, see lib/members
+  updatedBy?: ID;          // ... and who changed it last
+};
+
+// Sinking fund: save `target` by the end of `targetDate` (a monthKey).
+// The accumulated balance is not stored; goal buckets roll everything over,
+// so it is the bucket's carried-in balance (see lib/goals).
+export type SavingsGoal = { target: number; targetDate: string };
+export type GoalBucket = Bucket & { goal: SavingsGoal };
+
+// One part of a split txn. Parts share the parent's sign and sum to its amount.
+export type TxnSplit = {
+  id: ID;
+  bucketId: ID | null;
+  amount: number;
+};
+
+export type Txn = {
+  id: ID;
+  date: string;            // YYYY-MM-DD
+  description: string;
+  amount: number;          // negative = expense; positive = income/credit
+  bucketId: ID | null;
+  deleted?: boolean;
+  fingerprint?: string;    // stable import identity, see lib/dedupe.ts
+  fitId?: string;          // bank transaction id from OFX/QFX statements
+  payee?: string;          // original payee/memo from OFX/QIF, kept as imported
+  memo?: string;
+  splits?: TxnSplit[];     // when set, bucketId is null and the parts carry the buckets
+  recurringId?: ID;        // recurring item this txn paid ...
+  recurringDate?: string;  // ... and which expected occurrence (YYYY-MM-DD)
+  accountId?: ID;          // every txn belongs to an account (since state v3)
+  cleared?: boolean;       // ticked while reconciling
+  reconciled?: boolean;    // locked in by a finished reconciliation
+  transferPeerId?: ID;     // other leg of a transfer between two accounts; never counts as spending or income
+  createdBy?: ID;          // household member who added/imported it, see lib/members
+  updatedBy?: ID;          // ... and who changed it last
+  spentBy?: ID;            // member the money was spent by, when it isn't whoever added it
+};
+
+// Someone in the household. Each member opens the cloud copy with their own
+// passphrase (a key slot of their own, see lib/crypto). The app doesn't let
+// viewers edit; owners also manage members.
+export type MemberRole = "owner" | "editor" | "viewer";
+export type Member = {
+  id: ID;
+  name: string;
+  role: MemberRole;
+};
+
+// One field of one record before and after an edit. Records that were added
+// or removed have no `field`; a removed one carries the whole record in `before`.
+// Collections other than buckets/txns (rules, accounts, ...) are logged whole.
+export type AuditChange = {
+  collection: string;
+  id?: ID;
+  name?: string; // bucket name / txn description at the time
+  field?: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type AuditEntry = {
+  id: ID;
+  at: string; // ISO timestamp
+  by: ID | null; // member; null = household passphrase
+  label: string;
+  changes: AuditChange[];
+};
+
+// The budget as it was at one moment, without the log, snapshots or members
+export type SnapshotData = Omit<AppState, "log" | "snapshots" | "members">;
+
+// A named moment in the change log; the budget as it was then is rebuilt from
+// the log (see lib/audit), so keeping one costs next to nothing to sync.
+export type Snapshot = {
+  id: ID;
+  name: string;
+  at: string;
+  by: ID | null;
+};
+
+export type AccountKind = "checking" | "savings" | "credit" | "cash";
+
+// Bank/credit account. Balance = openingBalance + its txns; credit card
+// balances are negative while money is owed.
+export type Account = {
+  id: ID;
+  name: string;
+  kind: AccountKind;
+  openingBalance: number;
+  externalId?: string;     // ACCTID from OFX/QFX statements, to pick the account on import
+  lastReconciled?: { date: string; balance: number };
+  closed?: boolean;
+};
+
+// A bill or deposit that repeats. Occurrences are generated from startDate:
+// monthly/yearly keep its day of month (clamped to short months),
+// weekly repeats every `interval` weeks.
+export type Cadence = "weekly" | "monthly" | "yearly";
+
+export type RecurringItem = {
+  id: ID;
+  name: string;
+  amount: number;          // same sign convention as Txn
+  bucketId: ID | null;
+  cadence: Cadence;
+  interval: number;        // every N weeks / months / years
+  startDate: string;       // YYYY-MM-DD, first occurrence
+  endDate?: string;
+  matchText?: string;      // description must contain this to auto-match (defaults to name)
+  enabled: boolean;
+};
+
+// Auto-categorization rule. Every condition that is set must match;
+// rules are evaluated in list order and the first match wins.
+export type Rule = {
+  id: ID;
+  name: string;
+  bucketId: ID;
+  merchant?: string;       // compared against extractTitle(description), case-insensitive
+  pattern?: string;        // regex tested against the raw description (flags: i)
+  minAmount?: number;      // inclusive, compared against |amount|
+  maxAmount?: number;      // inclusive, compared against |amount|
+  sign?: "expense" | "income";
+  enabled: boolean;
+};
+
+// How a bank's CSV export maps onto Txn fields.
+export type ColumnRole = "date" | "description" | "amount" | "debit" | "credit" | "ignore";
+export type DateFormat = "auto" | "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY";
+export type SignConvention = "negative-expense" | "positive-expense";
+export type CSVDelimiter = "," | ";" | "\t";
+export type DecimalSeparator = "auto" | "." | ",";
+
+export type BankProfile = {
+  id: ID;
+  name: string;
+  header: string[];        // normalized header row used for auto-detection
+  hasHeader: boolean;
+  columns: ColumnRole[];   // one role per column, by index
+  dateFormat: DateFormat;
+  sign: SignConvention;    // applies to the "amount" column only
+  delimiter?: CSVDelimiter;
+  decimal?: DecimalSeparator;
+};
+
+export type AppState = {
+  buckets: Bucket[];
+  txns: Txn[];
+  rules?: Rule[];
+  bankProfiles?: BankProfile[];
+  recurring?: RecurringItem[];
+  accounts?: Account[];
+  dismissedSubscriptions?: string[]; // merchant keys, see lib/subscriptions
+  members?: Member[];
+  log?: AuditEntry[]; // append-only change log, see lib/audit
+  snapshots?: Snapshot[];
+  version?: number; // For future migrations
+};
@@ -0,0 +1,17 @@
+-- Revision counter for conditional writes (src/lib/storage.ts). Every save
+-- sets revision = the revision it read + 1 and only succeeds if the row still
+-- has the revision it read, so no device overwrites a save it hasn't merged.
+alter table public.states add column if not exists revision integer;
+
+-- Rows saved before the column existed
+update public.states set revision = 1 where revision is null;
+
+alter table public.states alter column revision set default 1;
+alter table public.states alter column revision set not null;
+
+-- Realtime updates between devices
+do $$
+begin
+  alter publication supabase_realtime add table public.states;
+exception when duplicate_object then null;
+end $$;